@@ -0,0 +1,476 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Headless load test: opens N WebSocket players against a running server, plays them like
+// people (wandering cursors, abilities, territory hits) and reports what it cost the server.
+//
+//   npm run loadtest -- --clients 48 --duration 60
+//
+// Run with --help for every option. Exits non-zero if clients couldn't connect or a --max-*
+// threshold was exceeded, so it can gate a build.
+
+import { parseArgs } from 'node:util';
+import { WebSocket } from 'ws';
+import {
+  ABILITY_TYPES,
+  PLAYER_COLORS,
+  type AbilityType,
+  type ClientMessage,
+  type GameMap,
+  type MapTerritory,
+  type ServerMessage,
+  type Vector3
+} from '../src/shared/protocol';
+
+const TICK_INTERVAL_MS = 50; // the server's 20Hz loop
+const REPORT_INTERVAL_MS = 5000;
+// Hits a client reports while its cursor sits on a territory (the browser spawns 80 particles a
+// frame, batches hits every 100ms, and by no means all of them land)
+const HITS_PER_SECOND_ON_TERRITORY = 200;
+const HIT_BATCH_MS = 100;
+const CURSOR_SPEED = 14; // world units per second
+// Answers that never came count as lost after this long
+const RTT_TIMEOUT_MS = 5000;
+
+const USAGE = `Usage: npm run loadtest -- [options]
+
+  --url <ws url>            server to load (default ws://localhost:3000)
+  --clients <n>             players to connect (default 24)
+  --duration <seconds>      how long to play once everyone is in (default 30)
+  --room <code>             put everyone in this room instead of creating private ones
+  --per-room <n>            players per created room (default 8, at most ${PLAYER_COLORS.length})
+  --mode <ffa|teams>        mode of the created rooms (default ffa)
+  --ramp <ms>               delay between connections (default 50)
+  --cursor-hz <n>           cursor updates per client per second (default 30)
+  --forces-per-minute <n>   abilities each client tries per minute (default 20)
+  --max-rtt-p99 <ms>        fail if the p99 round trip is above this
+  --max-tick-p99 <ms>       fail if the p99 server tick interval is above this
+  --help                    show this`;
+
+interface Options {
+  url: string;
+  clients: number;
+  durationMs: number;
+  room: string | null;
+  perRoom: number;
+  mode: 'ffa' | 'teams';
+  rampMs: number;
+  cursorHz: number;
+  forcesPerMinute: number;
+  maxRttP99: number | null;
+  maxTickP99: number | null;
+}
+
+function readOptions(): Options {
+  const { values } = parseArgs({
+    options: {
+      url: { type: 'string', default: 'ws://localhost:3000' },
+      clients: { type: 'string', default: '24' },
+      duration: { type: 'string', default: '30' },
+      room: { type: 'string' },
+      'per-room': { type: 'string', default: '8' },
+      mode: { type: 'string', default: 'ffa' },
+      ramp: { type: 'string', default: '50' },
+      'cursor-hz': { type: 'string', default: '30' },
+      'forces-per-minute': { type: 'string', default: '20' },
+      'max-rtt-p99': { type: 'string' },
+      'max-tick-p99': { type: 'string' },
+      help: { type: 'boolean', default: false }
+    }
+  });
+  if (values.help) {
+    console.log(USAGE);
+    process.exit(0);
+  }
+
+  const positive = (name: string, value: string | undefined) => {
+    const n = Number(value);
+    if (!Number.isFinite(n) || n <= 0) {
+      console.error(`--${name} must be a positive number\n\n${USAGE}`);
+      process.exit(2);
+    }
+    return n;
+  };
+  const optional = (name: string, value: string | undefined) => (value === undefined ? null : positive(name, value));
+  if (values.mode !== 'ffa' && values.mode !== 'teams') {
+    console.error(`--mode must be ffa or teams\n\n${USAGE}`);
+    process.exit(2);
+  }
+
+  return {
+    url: values.url.replace(/\/$/, ''),
+    clients: Math.floor(positive('clients', values.clients)),
+    durationMs: positive('duration', values.duration) * 1000,
+    room: values.room?.toUpperCase() ?? null,
+    perRoom: Math.min(PLAYER_COLORS.length, Math.floor(positive('per-room', values['per-room']))),
+    mode: values.mode,
+    rampMs: Number(values.ramp) >= 0 ? Number(values.ramp) : 50,
+    cursorHz: positive('cursor-hz', values['cursor-hz']),
+    forcesPerMinute: positive('forces-per-minute', values['forces-per-minute']),
+    maxRttP99: optional('max-rtt-p99', values['max-rtt-p99']),
+    maxTickP99: optional('max-tick-p99', values['max-tick-p99'])
+  };
+}
+
+// Everything the clients measured, for one reporting window or the whole run
+class Metrics {
+  messagesIn = new Map<string, number>();
+  bytesIn = 0;
+  messagesOut = 0;
+  bytesOut = 0;
+  syncBytes = 0;
+  syncCount = 0;
+  // ms between consecutive syncs, by the server's clock and by arrival
+  tickIntervals: number[] = [];
+  arrivalIntervals: number[] = [];
+  missedTicks = 0;
+  roundTrips: number[] = [];
+  lostRequests = 0;
+  rejected = new Map<string, number>();
+
+  received(type: string, bytes: number) {
+    this.messagesIn.set(type, (this.messagesIn.get(type) ?? 0) + 1);
+    this.bytesIn += bytes;
+  }
+
+  get totalMessagesIn() {
+    let total = 0;
+    for (const count of this.messagesIn.values()) {
+      total += count;
+    }
+    return total;
+  }
+}
+
+function percentile(sorted: number[], p: number) {
+  if (sorted.length === 0) {
+    return NaN;
+  }
+  return sorted[Math.min(sorted.length - 1, Math.floor((p / 100) * sorted.length))];
+}
+
+function summarize(samples: number[]) {
+  const sorted = [...samples].sort((a, b) => a - b);
+  const mean = sorted.reduce((sum, v) => sum + v, 0) / (sorted.length || 1);
+  return { count: sorted.length, mean, p50: percentile(sorted, 50), p95: percentile(sorted, 95), p99: percentile(sorted, 99), max: sorted.at(-1) ?? NaN };
+}
+
+function formatBytes(bytes: number) {
+  if (bytes >= 1024 * 1024) {
+    return `${(bytes / 1024 / 1024).toFixed(2)} MB`;
+  }
+  return bytes >= 1024 ? `${(bytes / 1024).toFixed(1)} kB` : `${Math.round(bytes)} B`;
+}
+
+const ms = (value: number) => (Number.isNaN(value) ? '-' : `${value.toFixed(1)}ms`);
+
+/**
+ * One simulated player. Wanders its cursor from territory to territory, reports hits while it's
+ * over one, and tries abilities at random, timing each `add_force` until the server answers it
+ * (`force_added` or `action_rejected` with the same request id).
+ */
+class LoadClient {
+  private ws: WebSocket | null = null;
+  private timers: ReturnType<typeof setInterval>[] = [];
+  private map: GameMap | null = null;
+  private cursor: Vector3 = { x: 0, y: 0, z: 0 };
+  private target: MapTerritory | null = null;
+  private pending = new Map<string, number>();
+  private nextRequestId = 0;
+  private lastServerTime: number | null = null;
+  private lastTick: number | null = null;
+  private lastArrival: number | null = null;
+  connected = false;
+  dropped = false;
+
+  constructor(private index: number, private options: Options, private metrics: () => Metrics[]) {}
+
+  connect(roomCode: string | null) {
+    return new Promise<boolean>((resolve) => {
+      const query = new URLSearchParams({ name: `Load ${this.index + 1}` });
+      if (roomCode) {
+        query.set('room', roomCode);
+      }
+      const ws = new WebSocket(`${this.options.url}/?${query}`);
+      this.ws = ws;
+      const timeout = setTimeout(() => {
+        ws.terminate();
+        resolve(false);
+      }, 10000);
+
+      ws.on('message', (raw: Buffer) => {
+        const message = JSON.parse(raw.toString()) as ServerMessage;
+        this.record((m) => {
+          m.received(message.type, raw.length);
+          if (message.type === 'sync') {
+            m.syncBytes += raw.length;
+          }
+        });
+        if (message.type === 'init') {
+          clearTimeout(timeout);
+          this.connected = true;
+          this.map = message.map;
+          this.start();
+          resolve(true);
+        } else if (message.type === 'room_rejected') {
+          clearTimeout(timeout);
+          ws.close();
+          resolve(false);
+        } else {
+          this.handle(message);
+        }
+      });
+      ws.on('error', () => {
+        clearTimeout(timeout);
+        resolve(false);
+      });
+      ws.on('close', () => {
+        if (this.connected && this.timers.length > 0) {
+          this.dropped = true;
+        }
+        this.stop();
+      });
+    });
+  }
+
+  close() {
+    this.stop();
+    this.ws?.close();
+  }
+
+  private record(update: (metrics: Metrics) => void) {
+    for (const metrics of this.metrics()) {
+      update(metrics);
+    }
+  }
+
+  private send(message: ClientMessage) {
+    if (this.ws?.readyState === WebSocket.OPEN) {
+      const data = JSON.stringify(message);
+      this.ws.send(data);
+      this.record((m) => {
+        m.messagesOut++;
+        m.bytesOut += data.length;
+      });
+    }
+  }
+
+  private handle(message: ServerMessage) {
+    const now = performance.now();
+    if (message.type === 'sync') {
+      this.record((m) => {
+        m.syncCount++;
+        if (this.lastServerTime !== null) {
+          m.tickIntervals.push(message.serverTime - this.lastServerTime);
+        }
+        if (this.lastTick !== null && message.tick > this.lastTick + 1) {
+          m.missedTicks += message.tick - this.lastTick - 1;
+        }
+        if (this.lastArrival !== null) {
+          m.arrivalIntervals.push(now - this.lastArrival);
+        }
+      });
+      this.lastServerTime = message.serverTime;
+      this.lastTick = message.tick;
+      this.lastArrival = now;
+    } else if (message.type === 'map_changed') {
+      this.map = message.map;
+      this.target = null;
+    } else if ((message.type === 'force_added' || message.type === 'action_rejected') && message.requestId) {
+      const sentAt = this.pending.get(message.requestId);
+      if (sentAt !== undefined) {
+        this.pending.delete(message.requestId);
+        this.record((m) => m.roundTrips.push(now - sentAt));
+      }
+      if (message.type === 'action_rejected') {
+        this.record((m) => m.rejected.set(message.reason, (m.rejected.get(message.reason) ?? 0) + 1));
+      }
+    }
+  }
+
+  private start() {
+    const bounds = this.map!.bounds;
+    this.cursor = {
+      x: bounds.minX + Math.random() * (bounds.maxX - bounds.minX),
+      y: bounds.minY + Math.random() * (bounds.maxY - bounds.minY),
+      z: 0
+    };
+    const cursorMs = 1000 / this.options.cursorHz;
+    this.timers.push(setInterval(() => this.moveCursor(cursorMs / 1000), cursorMs));
+    this.timers.push(setInterval(() => this.reportHits(), HIT_BATCH_MS));
+    // Ability attempts arrive at random, at the configured average rate
+    const forceCheckMs = 250;
+    const chance = (this.options.forcesPerMinute / 60) * (forceCheckMs / 1000);
+    this.timers.push(setInterval(() => Math.random() < chance && this.tryAbility(), forceCheckMs));
+    this.timers.push(setInterval(() => this.expireRequests(), 1000));
+  }
+
+  private stop() {
+    this.timers.forEach(clearInterval);
+    this.timers = [];
+  }
+
+  private moveCursor(elapsedSeconds: number) {
+    const territories = this.map?.territories ?? [];
+    if (territories.length === 0) {
+      return;
+    }
+    if (!this.target || Math.random() < elapsedSeconds / 4) {
+      this.target = territories[Math.floor(Math.random() * territories.length)];
+    }
+    // Head for the target with a bit of hand tremor
+    const dx = this.target.position.x - this.cursor.x;
+    const dy = this.target.position.y - this.cursor.y;
+    const dist = Math.hypot(dx, dy);
+    const step = Math.min(dist, CURSOR_SPEED * elapsedSeconds);
+    if (dist > 0) {
+      this.cursor.x += (dx / dist) * step + (Math.random() - 0.5) * 0.2;
+      this.cursor.y += (dy / dist) * step + (Math.random() - 0.5) * 0.2;
+    }
+    this.send({ type: 'cursor', position: { ...this.cursor } });
+  }
+
+  private reportHits() {
+    const territory = this.map?.territories.find(
+      (t) => Math.hypot(t.position.x - this.cursor.x, t.position.y - this.cursor.y) <= t.radius
+    );
+    if (territory) {
+      this.send({ type: 'hit_territory', territoryId: territory.id, amount: (HITS_PER_SECOND_ON_TERRITORY * HIT_BATCH_MS) / 1000 });
+    }
+  }
+
+  private tryAbility() {
+    const requestId = `load-${this.index}-${this.nextRequestId++}`;
+    const forceType: AbilityType = ABILITY_TYPES[Math.floor(Math.random() * ABILITY_TYPES.length)];
+    this.pending.set(requestId, performance.now());
+    this.send({
+      type: 'add_force',
+      position: { ...this.cursor },
+      forceType,
+      requestId,
+      ...(forceType === 'barrier' ? { angle: Math.random() * Math.PI * 2 } : {})
+    });
+  }
+
+  private expireRequests() {
+    const now = performance.now();
+    for (const [requestId, sentAt] of this.pending) {
+      if (now - sentAt > RTT_TIMEOUT_MS) {
+        this.pending.delete(requestId);
+        this.record((m) => m.lostRequests++);
+      }
+    }
+  }
+}
+
+// Room code for each client: everyone in `--room`, or fresh private rooms of `--per-room`
+async function assignRooms(options: Options) {
+  if (options.room) {
+    return Array.from({ length: options.clients }, () => options.room);
+  }
+  const httpBase = options.url.replace(/^ws/, 'http');
+  const codes: string[] = [];
+  for (let created = 0; created < options.clients; created += options.perRoom) {
+    const res = await fetch(`${httpBase}/api/rooms`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ isPrivate: true, mode: options.mode, maxPlayers: options.perRoom })
+    });
+    if (!res.ok) {
+      throw new Error(`Could not create a room: HTTP ${res.status}`);
+    }
+    const { room } = (await res.json()) as { room: { code: string } };
+    codes.push(room.code);
+  }
+  return Array.from({ length: options.clients }, (_, i) => codes[Math.floor(i / options.perRoom)]);
+}
+
+function printWindow(metrics: Metrics, seconds: number, connected: number) {
+  const tick = summarize(metrics.tickIntervals);
+  const rtt = summarize(metrics.roundTrips);
+  console.log(
+    `${connected} clients | in ${Math.round(metrics.totalMessagesIn / seconds)} msg/s ${formatBytes(metrics.bytesIn / seconds)}/s` +
+      ` | out ${Math.round(metrics.messagesOut / seconds)} msg/s | tick p99 ${ms(tick.p99)} | rtt p50 ${ms(rtt.p50)} p99 ${ms(rtt.p99)}`
+  );
+}
+
+function printReport(metrics: Metrics, seconds: number, clients: LoadClient[], rooms: number) {
+  const connected = clients.filter((c) => c.connected).length;
+  const dropped = clients.filter((c) => c.dropped).length;
+  const tick = summarize(metrics.tickIntervals);
+  const arrival = summarize(metrics.arrivalIntervals);
+  const rtt = summarize(metrics.roundTrips);
+
+  console.log(`\n=== Load test: ${seconds.toFixed(0)}s, ${connected}/${clients.length} clients in ${rooms} room(s), ${dropped} dropped ===`);
+  console.log(`Received  ${Math.round(metrics.totalMessagesIn / seconds)} msg/s, ${formatBytes(metrics.bytesIn / seconds)}/s in total`);
+  console.log(`          ${formatBytes(metrics.bytesIn / seconds / Math.max(1, connected))}/s per client, average sync ${formatBytes(metrics.syncBytes / Math.max(1, metrics.syncCount))}`);
+  console.log(`Sent      ${Math.round(metrics.messagesOut / seconds)} msg/s, ${formatBytes(metrics.bytesOut / seconds)}/s`);
+  console.log('By type   ' + Array.from(metrics.messagesIn.entries())
+    .sort((a, b) => b[1] - a[1])
+    .map(([type, count]) => `${type} ${(count / seconds).toFixed(1)}/s`)
+    .join(', '));
+  console.log(`Server tick interval (target ${TICK_INTERVAL_MS}ms): mean ${ms(tick.mean)}, p50 ${ms(tick.p50)}, p95 ${ms(tick.p95)}, p99 ${ms(tick.p99)}, max ${ms(tick.max)}; ${metrics.missedTicks} missed`);
+  console.log(`Sync arrival interval: p50 ${ms(arrival.p50)}, p95 ${ms(arrival.p95)}, p99 ${ms(arrival.p99)}, max ${ms(arrival.max)}`);
+  console.log(`add_force round trip: ${rtt.count} answered, ${metrics.lostRequests} lost; p50 ${ms(rtt.p50)}, p90 ${ms(percentile([...metrics.roundTrips].sort((a, b) => a - b), 90))}, p99 ${ms(rtt.p99)}, max ${ms(rtt.max)}`);
+  if (metrics.rejected.size > 0) {
+    console.log('Rejected  ' + Array.from(metrics.rejected.entries()).map(([reason, count]) => `${reason} ${count}`).join(', '));
+  }
+  return { connected, tick, rtt };
+}
+
+async function main() {
+  const options = readOptions();
+  let total = new Metrics();
+  let window = new Metrics();
+  const clients = Array.from({ length: options.clients }, (_, i) => new LoadClient(i, options, () => [total, window]));
+
+  const rooms = await assignRooms(options);
+  console.log(`Connecting ${options.clients} clients to ${options.url} (${new Set(rooms).size} room(s))…`);
+  for (const [i, client] of clients.entries()) {
+    void client.connect(rooms[i]);
+    await new Promise((resolve) => setTimeout(resolve, options.rampMs));
+  }
+  // Give the last few a moment to get their `init`
+  await new Promise((resolve) => setTimeout(resolve, 1000));
+
+  // Measure only the steady state, not the ramp-up
+  total = new Metrics();
+  window = new Metrics();
+  const startedAt = performance.now();
+  let windowStartedAt = startedAt;
+  const reporter = setInterval(() => {
+    const now = performance.now();
+    printWindow(window, (now - windowStartedAt) / 1000, clients.filter((c) => c.connected && !c.dropped).length);
+    window = new Metrics();
+    windowStartedAt = now;
+  }, REPORT_INTERVAL_MS);
+
+  await new Promise((resolve) => setTimeout(resolve, options.durationMs));
+  clearInterval(reporter);
+  clients.forEach((client) => client.close());
+
+  const { connected, tick, rtt } = printReport(total, (performance.now() - startedAt) / 1000, clients, new Set(rooms).size);
+
+  const failures: string[] = [];
+  if (connected < clients.length) {
+    failures.push(`${clients.length - connected} client(s) could not connect`);
+  }
+  if (options.maxRttP99 !== null && !(rtt.p99 <= options.maxRttP99)) {
+    failures.push(`round trip p99 ${ms(rtt.p99)} is above ${options.maxRttP99}ms`);
+  }
+  if (options.maxTickP99 !== null && !(tick.p99 <= options.maxTickP99)) {
+    failures.push(`tick interval p99 ${ms(tick.p99)} is above ${options.maxTickP99}ms`);
+  }
+  if (failures.length > 0) {
+    console.error(`\nFAILED: ${failures.join('; ')}`);
+    process.exit(1);
+  }
+  process.exit(0);
+}
+
+main().catch((e) => {
+  console.error(e instanceof Error ? e.message : e);
+  process.exit(1);
+});
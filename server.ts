@@ -5,270 +5,256 @@
 
 import express from 'express';
 import { createServer as createViteServer } from 'vite';
-import { WebSocketServer, WebSocket } from 'ws';
-import { v4 as uuidv4 } from 'uuid';
+import { WebSocketServer } from 'ws';
 import http from 'http';
+import {
+  GAME_MODES,
+  LEADERBOARD_SORTS,
+  WIN_CONDITION_TYPES,
+  normalizePlayerColor,
+  normalizePlayerName,
+  normalizeProfileId,
+  normalizePublicPlayerId,
+  normalizeResumeToken,
+  normalizeRoomCode,
+  parseClientMessage
+} from './src/shared/protocol';
+import { BOT_DIFFICULTIES, NO_BOTS, type BotConfig } from './server/bots';
+import { StatsDatabase } from './server/database';
+import { getMapRotation, loadMaps } from './server/maps';
+import { DEFAULT_MATCH_CONFIG, type MatchConfig } from './server/match';
+import type { JoinRequest } from './server/engine';
+import { Room, send } from './server/room';
+import {
+  createRoom,
+  getDefaultRoom,
+  getMapRotationFrom,
+  getRoom,
+  getTotalPlayerCount,
+  hasRoomCapacity,
+  listPublicRooms,
+  setDefaultRoomBots,
+  setMapRotation,
+  setMatchRecorder
+} from './server/rooms';
 
 const PORT = 3000;
+const DATABASE_PATH = process.env.DATABASE_PATH ?? 'data/territory-war.db';
+const MAPS_DIR = 'server/maps';
+const DEFAULT_LEADERBOARD_LIMIT = 20;
 
-// Types
-type Vector3 = { x: number; y: number; z: number };
-
-interface Player {
-  id: string;
-  color: string;
-  position: Vector3 | null;
-  lastUpdate: number;
-  energy: number;
-  maxEnergy: number;
-  regenPerSecond: number;
-  cooldowns: Record<'attractor' | 'repulsor', number>;
-  lastEnergyTick: number;
-}
-
-interface ForceField {
-  id: string;
-  position: Vector3;
-  type: 'attractor' | 'repulsor';
-  ownerId: string;
-  createdAt: number;
-  color: string;
+function readSeconds(value: unknown, min: number, max: number) {
+  const seconds = Number(value);
+  return Number.isFinite(seconds) ? Math.max(min, Math.min(max, seconds)) * 1000 : null;
 }
 
-interface Territory {
-  id: string;
-  position: Vector3;
-  radius: number;
-  points: number; // 0 to 100
-  controllingColor: string | null;
+// The fields of a JSON request body, or none if it isn't an object
+function readBody(body: unknown): Record<string, unknown> {
+  return typeof body === 'object' && body !== null && !Array.isArray(body) ? (body as Record<string, unknown>) : {};
 }
 
-// State
-const players = new Map<string, Player>();
-const forceFields = new Map<string, ForceField>();
-const clients = new Map<string, WebSocket>();
-
-const territories = new Map<string, Territory>([
-  ['t1', { id: 't1', position: { x: -8, y: 4, z: 0 }, radius: 2.5, points: 0, controllingColor: null }],
-  ['t2', { id: 't2', position: { x: 8, y: 4, z: 0 }, radius: 2.5, points: 0, controllingColor: null }],
-  ['t3', { id: 't3', position: { x: 0, y: -6, z: 0 }, radius: 2.5, points: 0, controllingColor: null }],
-]);
-
-// Colors for players
-const COLORS = [
-  '#FF3366', '#33CCFF', '#FF9933', '#33FF99', 
-  '#CC33FF', '#FFFF33', '#FF3333', '#3333FF'
-];
-
-const PLAYER_MAX_ENERGY = 100;
-const PLAYER_REGEN_PER_SECOND = 20;
-const MAX_ACTIVE_FORCE_FIELDS_PER_PLAYER = 4;
-const ABILITY_CONFIG = {
-  attractor: { energyCost: 25, cooldownMs: 1200 },
-  repulsor: { energyCost: 35, cooldownMs: 1800 }
-} as const;
-
-function updatePlayerEnergy(player: Player, now: number) {
-  const elapsedSeconds = Math.max(0, (now - player.lastEnergyTick) / 1000);
-  if (elapsedSeconds > 0) {
-    player.energy = Math.min(player.maxEnergy, player.energy + elapsedSeconds * player.regenPerSecond);
-    player.lastEnergyTick = now;
-  }
+// Match settings a room creator may override; anything missing or malformed keeps the default
+function readMatchConfig(body: Record<string, unknown>): MatchConfig {
+  const winConditionType = WIN_CONDITION_TYPES.find((type) => type === body.winCondition);
+  const targetMs = readSeconds(body.winTargetSeconds, 5, 1800);
+  const minPlayers = Number(body.minPlayers);
+  return {
+    ...DEFAULT_MATCH_CONFIG,
+    roundLengthMs: readSeconds(body.roundLengthSeconds, 30, 3600) ?? DEFAULT_MATCH_CONFIG.roundLengthMs,
+    minPlayers: Number.isInteger(minPlayers) && minPlayers >= 1 ? minPlayers : DEFAULT_MATCH_CONFIG.minPlayers,
+    winCondition: {
+      type: winConditionType ?? DEFAULT_MATCH_CONFIG.winCondition.type,
+      targetMs: targetMs ?? (winConditionType === 'domination' ? 20 * 1000 : DEFAULT_MATCH_CONFIG.winCondition.targetMs)
+    }
+  };
 }
 
-function broadcast(data: any, excludeId?: string) {
-  const message = JSON.stringify(data);
-  for (const [id, ws] of clients.entries()) {
-    if (id !== excludeId && ws.readyState === WebSocket.OPEN) {
-      ws.send(message);
-    }
-  }
+// Bot fill for a room: `fillTo` players (0 for none) of the given difficulty
+function readBotConfig(fillTo: unknown, difficulty: unknown): BotConfig {
+  const count = Number(fillTo);
+  return {
+    fillTo: Number.isInteger(count) && count > 0 ? count : NO_BOTS.fillTo,
+    difficulty: BOT_DIFFICULTIES.find((d) => d === difficulty) ?? NO_BOTS.difficulty
+  };
 }
 
 async function startServer() {
+  // Before anything listens, so a broken map file stops the server right here
+  const maps = getMapRotation(loadMaps(MAPS_DIR), process.env.MAP_ROTATION);
+  setMapRotation(maps);
+  console.log(`Map rotation: ${maps.map((map) => map.id).join(', ')}`);
+  // BOT_FILL=4 keeps the public room at four players or more, BOT_DIFFICULTY picks how well they play
+  setDefaultRoomBots(readBotConfig(process.env.BOT_FILL, process.env.BOT_DIFFICULTY));
+
   const app = express();
   const server = http.createServer(app);
-  
+  app.use(express.json());
+
+  const stats = new StatsDatabase(DATABASE_PATH);
+  setMatchRecorder((record) => {
+    // A failed write loses one round of stats; it must not take the game loop down with it
+    try {
+      const matchId = stats.recordMatch(record);
+      console.log(`Recorded match ${matchId} from room ${record.roomCode}`);
+    } catch (e) {
+      console.error('Failed to record match', e);
+    }
+  });
+
   // WebSocket Server
   const wss = new WebSocketServer({ server });
 
-  wss.on('connection', (ws) => {
-    const id = uuidv4();
-    const color = COLORS[Math.floor(Math.random() * COLORS.length)];
-    
-    const player: Player = {
-      id,
-      color,
-      position: null,
-      lastUpdate: Date.now(),
-      energy: PLAYER_MAX_ENERGY,
-      maxEnergy: PLAYER_MAX_ENERGY,
-      regenPerSecond: PLAYER_REGEN_PER_SECOND,
-      cooldowns: {
-        attractor: 0,
-        repulsor: 0
-      },
-      lastEnergyTick: Date.now()
-    };
-    
-    players.set(id, player);
-    clients.set(id, ws);
-
-    // Send initial state to the new client
-    ws.send(JSON.stringify({
-      type: 'init',
-      id,
-      color,
-      players: Array.from(players.values()),
-      forceFields: Array.from(forceFields.values()),
-      territories: Array.from(territories.values()),
-      abilityConfig: ABILITY_CONFIG,
-      maxActiveForceFieldsPerPlayer: MAX_ACTIVE_FORCE_FIELDS_PER_PLAYER
-    }));
+  wss.on('connection', (ws, req) => {
+    let current: { room: Room; playerId: string } | null = null;
 
-    // Broadcast new player to others
-    broadcast({
-      type: 'player_joined',
-      player
-    }, id);
+    const joinRoom = (code: string | null, request: JoinRequest) => {
+      const room = code ? getRoom(code) : getDefaultRoom();
+      if (!room) {
+        send(ws, { type: 'room_rejected', roomCode: code ?? '', reason: 'room_not_found' });
+        return;
+      }
+      if (room === current?.room) {
+        return;
+      }
+      if (!room.canAdmit(request)) {
+        send(ws, { type: 'room_rejected', roomCode: room.code, reason: 'room_full' });
+        return;
+      }
 
-    ws.on('message', (message) => {
-      try {
-        const data = JSON.parse(message.toString());
-        
-        if (data.type === 'cursor') {
-          const p = players.get(id);
-          if (p) {
-            p.position = data.position;
-            p.lastUpdate = Date.now();
-          }
-        } else if (data.type === 'add_force') {
-          const p = players.get(id);
-          if (!p) {
-            return;
-          }
+      current?.room.leave(current.playerId);
+      current = { room, playerId: room.join(ws, request) };
+    };
 
-          const forceType = data.forceType as 'attractor' | 'repulsor';
-          const config = ABILITY_CONFIG[forceType];
-          if (!config) {
-            ws.send(JSON.stringify({ type: 'action_rejected', reason: 'invalid_force_type' }));
-            return;
-          }
+    // `?room=<code>` picks the room up front; without it everyone lands in the default room
+    const params = new URL(req.url ?? '/', 'http://localhost').searchParams;
+    const requestedRoom = params.get('room');
+    const joinRequest: JoinRequest = {
+      resumeToken: normalizeResumeToken(params.get('resume')),
+      name: normalizePlayerName(params.get('name')),
+      color: normalizePlayerColor(params.get('color')),
+      profileId: normalizeProfileId(params.get('profile')),
+      spectator: params.get('spectate') === '1'
+    };
+    if (requestedRoom === null) {
+      joinRoom(null, joinRequest);
+    } else {
+      const code = normalizeRoomCode(requestedRoom);
+      if (code) {
+        joinRoom(code, joinRequest);
+      } else {
+        send(ws, { type: 'room_rejected', roomCode: requestedRoom, reason: 'room_not_found' });
+      }
+    }
 
-          const now = Date.now();
-          updatePlayerEnergy(p, now);
+    ws.on('message', (message) => {
+      const parsed = parseClientMessage(message.toString());
+      if (parsed.ok === false) {
+        send(ws, { type: 'protocol_error', error: parsed.error });
+        return;
+      }
 
-          if (p.energy < config.energyCost) {
-            ws.send(JSON.stringify({ type: 'action_rejected', reason: 'not_enough_energy' }));
-            return;
-          }
+      const data = parsed.message;
+      if (data.type === 'join_room') {
+        joinRoom(data.roomCode, {
+          resumeToken: data.resumeToken ?? null,
+          name: data.name ?? null,
+          color: data.color ?? null,
+          profileId: data.profileId ?? null,
+          spectator: data.spectate ?? false
+        });
+      } else if (current) {
+        current.room.handleMessage(current.playerId, data);
+      }
+    });
 
-          if (p.cooldowns[forceType] > now) {
-            ws.send(JSON.stringify({ type: 'action_rejected', reason: 'ability_on_cooldown' }));
-            return;
-          }
+    ws.on('close', () => {
+      current?.room.disconnect(current.playerId, ws);
+      current = null;
+    });
+  });
 
-          const activeForceCount = Array.from(forceFields.values()).filter((force) => force.ownerId === id).length;
-          if (activeForceCount >= MAX_ACTIVE_FORCE_FIELDS_PER_PLAYER) {
-            ws.send(JSON.stringify({ type: 'action_rejected', reason: 'max_active_force_fields_reached' }));
-            return;
-          }
+  // API routes
+  app.get('/api/health', (req, res) => {
+    res.json({ status: 'ok', players: getTotalPlayerCount() });
+  });
 
-          p.energy = Math.max(0, p.energy - config.energyCost);
-          p.cooldowns[forceType] = now + config.cooldownMs;
+  app.get('/api/rooms', (req, res) => {
+    res.json({ rooms: listPublicRooms() });
+  });
 
-          const forceId = uuidv4();
-          const force: ForceField = {
-            id: forceId,
-            position: data.position,
-            type: forceType,
-            ownerId: id,
-            createdAt: Date.now(),
-            color: p.color
-          };
-          forceFields.set(forceId, force);
-          
-          // Broadcast new force field immediately
-          broadcast({
-            type: 'force_added',
-            force
-          });
-        } else if (data.type === 'hit_territory') {
-          const t = territories.get(data.territoryId);
-          const p = players.get(id);
-          if (t && p) {
-            const amount = data.amount * 0.1; // scale down hits
-            if (t.controllingColor === p.color) {
-              t.points = Math.min(100, t.points + amount);
-            } else {
-              t.points -= amount;
-              if (t.points <= 0) {
-                t.controllingColor = p.color;
-                t.points = Math.abs(t.points);
-              }
-            }
-          }
-        }
-      } catch (e) {
-        console.error('Invalid message', e);
-      }
+  app.post('/api/rooms', (req, res) => {
+    if (!hasRoomCapacity()) {
+      res.status(503).json({ error: 'too_many_rooms' });
+      return;
+    }
+    const body = readBody(req.body);
+    const maxPlayers = Number(body.maxPlayers);
+    const teamCount = Number(body.teamCount);
+    const room = createRoom({
+      maxPlayers: Number.isFinite(maxPlayers) ? Math.floor(maxPlayers) : undefined,
+      isPrivate: body.isPrivate === true,
+      mode: GAME_MODES.find((mode) => mode === body.mode),
+      teamCount: Number.isFinite(teamCount) ? Math.floor(teamCount) : undefined,
+      match: readMatchConfig(body),
+      maps: getMapRotationFrom(typeof body.map === 'string' ? body.map : null),
+      bots: readBotConfig(body.botFill, body.botDifficulty)
     });
+    res.status(201).json({ room: room.getSummary() });
+  });
 
-    ws.on('close', () => {
-      players.delete(id);
-      clients.delete(id);
-      
-      // Remove player's force fields
-      for (const [forceId, force] of forceFields.entries()) {
-        if (force.ownerId === id) {
-          forceFields.delete(forceId);
-        }
-      }
+  app.get('/api/rooms/:code', (req, res) => {
+    const code = normalizeRoomCode(req.params.code);
+    const room = code ? getRoom(code) : null;
+    if (!room) {
+      res.status(404).json({ error: 'room_not_found' });
+      return;
+    }
+    res.json({ room: room.getSummary() });
+  });
 
-      broadcast({
-        type: 'player_left',
-        id
-      });
+  app.get('/api/leaderboard', (req, res) => {
+    const sort = LEADERBOARD_SORTS.find((s) => s === req.query.sort) ?? 'wins';
+    const limit = Number(req.query.limit);
+    res.json({
+      sort,
+      players: stats.getLeaderboard(sort, Number.isFinite(limit) ? limit : DEFAULT_LEADERBOARD_LIMIT)
     });
   });
 
-  // Broadcast loop (20Hz)
-  setInterval(() => {
-    const now = Date.now();
-
-    for (const player of players.values()) {
-      updatePlayerEnergy(player, now);
-    }
-    
-    // Clean up old force fields (e.g., after 10.5 seconds to allow client animation)
-    let forcesChanged = false;
-    for (const [id, force] of forceFields.entries()) {
-      if (now - force.createdAt > 10500) {
-        forceFields.delete(id);
-        forcesChanged = true;
-      }
+  app.get('/api/players/:id', (req, res) => {
+    const id = normalizePublicPlayerId(req.params.id);
+    const player = id ? stats.getPlayer(id) : null;
+    if (!player) {
+      res.status(404).json({ error: 'player_not_found' });
+      return;
     }
+    res.json(player);
+  });
 
-    const updateData = {
-      type: 'sync',
-      players: Array.from(players.values()).filter(p => p.position !== null),
-      territories: Array.from(territories.values()),
-      playerStats: Array.from(players.values()).map((p) => ({
-        id: p.id,
-        energy: p.energy,
-        maxEnergy: p.maxEnergy,
-        regenPerSecond: p.regenPerSecond,
-        cooldowns: p.cooldowns
-      })),
-      ...(forcesChanged ? { forceFields: Array.from(forceFields.values()) } : {})
-    };
+  app.get('/api/matches', (req, res) => {
+    const limit = Number(req.query.limit);
+    res.json({ matches: stats.getRecentMatches(Number.isFinite(limit) ? limit : DEFAULT_LEADERBOARD_LIMIT) });
+  });
 
-    broadcast(updateData);
-  }, 50);
+  app.get('/api/matches/:id', (req, res) => {
+    const id = Number(req.params.id);
+    const match = Number.isInteger(id) ? stats.getMatch(id) : null;
+    if (!match) {
+      res.status(404).json({ error: 'match_not_found' });
+      return;
+    }
+    res.json(match);
+  });
 
-  // API routes
-  app.get('/api/health', (req, res) => {
-    res.json({ status: 'ok', players: players.size });
+  // Stored compressed; browsers inflate it transparently
+  app.get('/api/matches/:id/replay', (req, res) => {
+    const id = Number(req.params.id);
+    const replay = Number.isInteger(id) ? stats.getReplay(id) : null;
+    if (!replay) {
+      res.status(404).json({ error: 'replay_not_found' });
+      return;
+    }
+    res.set({ 'Content-Type': 'application/json', 'Content-Encoding': 'gzip' }).send(replay);
   });
 
   // Vite middleware for development
@@ -287,4 +273,7 @@ async function startServer() {
   });
 }
 
-startServer();
+startServer().catch((e) => {
+  console.error(e instanceof Error ? e.message : e);
+  process.exit(1);
+});
@@ -0,0 +1,206 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import {
+  ABILITY_CONFIG,
+  MAX_ACTIVE_FORCE_FIELDS_PER_PLAYER,
+  type ClientMessage,
+  type Cooldowns,
+  type ForceField,
+  type GameMap,
+  type Territory,
+  type Vector3
+} from '../src/shared/protocol';
+
+export const BOT_DIFFICULTIES = ['easy', 'normal', 'hard'] as const;
+export type BotDifficulty = (typeof BOT_DIFFICULTIES)[number];
+
+// Rooms top themselves up with bots to `fillTo` players while anyone is there to play against
+// them; bots give their slot up to people joining
+export interface BotConfig {
+  fillTo: number;
+  difficulty: BotDifficulty;
+}
+
+export const NO_BOTS: BotConfig = { fillTo: 0, difficulty: 'normal' };
+
+interface BotProfile {
+  cursorSpeed: number; // world units per second
+  replanMs: number; // how often it reconsiders its target
+  abilityIntervalMs: number; // least time between two abilities
+  hitsPerSecond: number; // particle hits it reports while over its target, before the server's cap
+  usesRepulsors: boolean;
+  // 0..1: how much it prefers the best target over a random one
+  focus: number;
+}
+
+const BOT_PROFILES: Record<BotDifficulty, BotProfile> = {
+  easy: { cursorSpeed: 8, replanMs: 4000, abilityIntervalMs: 5000, hitsPerSecond: 60, usesRepulsors: false, focus: 0.4 },
+  normal: { cursorSpeed: 14, replanMs: 2500, abilityIntervalMs: 2500, hitsPerSecond: 150, usesRepulsors: true, focus: 0.75 },
+  hard: { cursorSpeed: 22, replanMs: 1200, abilityIntervalMs: 1000, hitsPerSecond: 300, usesRepulsors: true, focus: 1 }
+};
+
+const BOT_NAMES = ['Nova', 'Quasar', 'Pulsar', 'Nebula', 'Comet', 'Vega', 'Orion', 'Lyra', 'Sirius', 'Rigel', 'Altair', 'Deneb'];
+
+// Close enough to a territory to pour particles into it
+const TARGET_REACH = 2;
+// An opposing cursor this close to my target is worth a repulsor
+const REPULSOR_RANGE = 8;
+// Bots push in waves (hit rate swinging between these shares of the profile's, over this
+// period) so two of them on one territory settle it instead of flipping it back and forth forever
+const SURGE_MIN = 0.4;
+const SURGE_MAX = 1.4;
+const SURGE_PERIOD_MS = 6000;
+// How much each opposing cursor already on a territory puts a bot off it, so bots spread out
+// instead of trading one territory back and forth
+const CROWD_PENALTY = 0.6;
+
+// What a bot sees of the room each tick; the room builds it from its own state
+export interface BotView {
+  now: number;
+  elapsedSeconds: number;
+  map: GameMap;
+  teamId: string;
+  energy: number;
+  cooldowns: Cooldowns;
+  territories: Iterable<Territory>;
+  forceFields: Iterable<ForceField>;
+  // Cursors of players on other teams
+  opponents: Vector3[];
+}
+
+export function pickBotName(taken: Set<string>) {
+  const free = BOT_NAMES.filter((name) => !taken.has(`Bot ${name}`));
+  const name = free.length > 0 ? free[Math.floor(Math.random() * free.length)] : BOT_NAMES[taken.size % BOT_NAMES.length];
+  return `Bot ${name}`;
+}
+
+function planarDistance(a: Vector3, b: Vector3) {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+/**
+ * One bot's decisions. It plays through the same messages a browser sends (cursor moves,
+ * `add_force`, `hit_territory`), so the room checks its costs, cooldowns and hit budget like
+ * anyone else's; it only skips what it can already see would be rejected.
+ */
+export class Bot {
+  private profile: BotProfile;
+  private cursor: Vector3 | null = null;
+  private targetId: string | null = null;
+  private nextPlanAt = 0;
+  private nextAbilityAt = 0;
+  private surgePhase = Math.random() * Math.PI * 2;
+
+  constructor(readonly playerId: string, readonly difficulty: BotDifficulty) {
+    this.profile = BOT_PROFILES[difficulty];
+  }
+
+  // The messages to act on this tick
+  update(view: BotView): ClientMessage[] {
+    const territories = Array.from(view.territories);
+    if (territories.length === 0) {
+      return [];
+    }
+    if (!this.cursor) {
+      const { bounds } = view.map;
+      this.cursor = {
+        x: bounds.minX + Math.random() * (bounds.maxX - bounds.minX),
+        y: bounds.minY + Math.random() * (bounds.maxY - bounds.minY),
+        z: 0
+      };
+    }
+
+    let target = territories.find((t) => t.id === this.targetId);
+    if (!target || view.now >= this.nextPlanAt) {
+      target = this.chooseTarget(territories, view);
+      this.targetId = target.id;
+      this.nextPlanAt = view.now + this.profile.replanMs * (0.75 + Math.random() * 0.5);
+    }
+
+    const commands: ClientMessage[] = [];
+    this.moveToward(target.position, view.now, view.elapsedSeconds);
+    commands.push({ type: 'cursor', position: { ...this.cursor } });
+
+    const arrived = planarDistance(this.cursor, target.position) <= target.radius + TARGET_REACH;
+    if (arrived && view.elapsedSeconds > 0) {
+      const wave = (Math.sin((view.now / SURGE_PERIOD_MS) * Math.PI * 2 + this.surgePhase) + 1) / 2;
+      const surge = SURGE_MIN + (SURGE_MAX - SURGE_MIN) * wave;
+      commands.push({ type: 'hit_territory', territoryId: target.id, amount: this.profile.hitsPerSecond * surge * view.elapsedSeconds });
+    }
+
+    if (arrived && view.now >= this.nextAbilityAt) {
+      const ability = this.chooseAbility(target, view);
+      if (ability) {
+        commands.push(ability);
+        this.nextAbilityAt = view.now + this.profile.abilityIntervalMs;
+      }
+    }
+    return commands;
+  }
+
+  // Unowned and enemy territories first (weighty, weakly held, nearby and uncrowded ones most),
+  // then my own ones that are slipping
+  private chooseTarget(territories: Territory[], view: BotView) {
+    const cursor = this.cursor!;
+    const { bounds } = view.map;
+    const span = Math.hypot(bounds.maxX - bounds.minX, bounds.maxY - bounds.minY);
+    const score = (t: Territory) => {
+      const closeness = 1 - planarDistance(cursor, t.position) / span;
+      const crowd = view.opponents.filter((position) => planarDistance(position, t.position) <= t.radius + TARGET_REACH).length;
+      if (t.controllingTeamId === view.teamId) {
+        return (1 - t.points / 100) * t.weight * 1.5 + closeness * 0.5;
+      }
+      const hold = t.controllingTeamId === null ? 0 : t.points / 100;
+      return t.weight * (1.5 - hold) + closeness - crowd * CROWD_PENALTY;
+    };
+    if (Math.random() > this.profile.focus) {
+      return territories[Math.floor(Math.random() * territories.length)];
+    }
+    return territories.reduce((best, t) => (score(t) > score(best) ? t : best));
+  }
+
+  private moveToward(destination: Vector3, now: number, elapsedSeconds: number) {
+    const cursor = this.cursor!;
+    // Drift around the target rather than sitting dead still on it
+    const wobble = 1.5;
+    const goal = {
+      x: destination.x + Math.sin(now / 700 + this.playerId.charCodeAt(0)) * wobble,
+      y: destination.y + Math.cos(now / 900 + this.playerId.charCodeAt(1)) * wobble
+    };
+    const dx = goal.x - cursor.x;
+    const dy = goal.y - cursor.y;
+    const dist = Math.hypot(dx, dy);
+    const step = Math.min(dist, this.profile.cursorSpeed * elapsedSeconds);
+    if (dist > 0) {
+      cursor.x += (dx / dist) * step;
+      cursor.y += (dy / dist) * step;
+    }
+  }
+
+  // Repulsors to push an opposing stream off the target, attractors to pull particles into it
+  private chooseAbility(target: Territory, view: BotView): ClientMessage | null {
+    const ownForces = Array.from(view.forceFields).filter((force) => force.ownerId === this.playerId);
+    if (ownForces.length >= MAX_ACTIVE_FORCE_FIELDS_PER_PLAYER) {
+      return null;
+    }
+    const ready = (type: 'attractor' | 'repulsor') =>
+      view.energy >= ABILITY_CONFIG[type].energyCost && view.cooldowns[type] <= view.now;
+
+    if (this.profile.usesRepulsors && ready('repulsor')) {
+      const intruder = view.opponents.find((position) => planarDistance(position, target.position) <= target.radius + REPULSOR_RANGE);
+      if (intruder) {
+        return { type: 'add_force', forceType: 'repulsor', position: { ...intruder } };
+      }
+    }
+    const alreadyPulling = ownForces.some(
+      (force) => force.type === 'attractor' && planarDistance(force.position, target.position) <= target.radius
+    );
+    if (!alreadyPulling && target.controllingTeamId !== view.teamId && ready('attractor')) {
+      return { type: 'add_force', forceType: 'attractor', position: { ...target.position } };
+    }
+    return null;
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// A deliberately small list: enough to keep the worst out of a public room without turning
+// ordinary words into asterisks
+const BLOCKED_WORDS = [
+  'fuck', 'shit', 'cunt', 'bitch', 'asshole', 'bastard', 'dick', 'cock', 'pussy', 'slut', 'whore',
+  'fag', 'faggot', 'nigger', 'nigga', 'retard', 'twat', 'wanker'
+];
+
+// Common stand-ins for letters (`sh1t`, `@ss`)
+const LOOKALIKES: Record<string, string> = {
+  a: 'a@4',
+  e: 'e3',
+  i: 'i1!',
+  o: 'o0',
+  s: 's$5',
+  t: 't7'
+};
+
+const SUFFIXES = '(?:s|es|ed|er|ers|ing|y|ty)?';
+
+// Every letter may repeat (`fuuuck`); a match has to be a whole word, give or take a suffix
+function wordPattern(word: string) {
+  return Array.from(word, (letter) => `[${LOOKALIKES[letter] ?? letter}]+`).join('');
+}
+
+const BLOCKED_PATTERN = new RegExp(
+  `(?<![\\p{L}\\p{N}])(?:${BLOCKED_WORDS.map(wordPattern).join('|')})${SUFFIXES}(?![\\p{L}\\p{N}])`,
+  'giu'
+);
+
+// Stars out blocked words, keeping their length so the sentence still reads as one
+export function filterProfanity(text: string) {
+  return text.replace(BLOCKED_PATTERN, (match) => '*'.repeat(match.length));
+}
@@ -0,0 +1,330 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { createHash } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import {
+  REPLAY_FORMAT_VERSION,
+  type LeaderboardSort,
+  type MatchParticipant,
+  type MatchSummary,
+  type PlayerTotals,
+  type TerritoryCapture
+} from '../src/shared/protocol';
+import type { MatchRecord } from './stats';
+
+// Applied in order at startup; `PRAGMA user_version` records how many have run. Never edit a
+// shipped migration, append a new one instead.
+const MIGRATIONS: string[] = [
+  `
+  CREATE TABLE players (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    matches_played INTEGER NOT NULL DEFAULT 0,
+    wins INTEGER NOT NULL DEFAULT 0,
+    abilities_used INTEGER NOT NULL DEFAULT 0,
+    hit_volume REAL NOT NULL DEFAULT 0,
+    captures INTEGER NOT NULL DEFAULT 0,
+    hold_time_ms INTEGER NOT NULL DEFAULT 0,
+    first_seen_at INTEGER NOT NULL,
+    last_seen_at INTEGER NOT NULL
+  );
+
+  CREATE TABLE matches (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    room_code TEXT NOT NULL,
+    mode TEXT NOT NULL,
+    round INTEGER NOT NULL,
+    win_condition_type TEXT NOT NULL,
+    win_condition_target_ms INTEGER NOT NULL,
+    started_at INTEGER NOT NULL,
+    ended_at INTEGER NOT NULL,
+    winner_team_id TEXT
+  );
+
+  CREATE TABLE match_participants (
+    match_id INTEGER NOT NULL REFERENCES matches(id) ON DELETE CASCADE,
+    player_id TEXT NOT NULL REFERENCES players(id),
+    name TEXT NOT NULL,
+    team_id TEXT NOT NULL,
+    color TEXT NOT NULL,
+    won INTEGER NOT NULL,
+    abilities_used INTEGER NOT NULL,
+    hit_volume REAL NOT NULL,
+    captures INTEGER NOT NULL,
+    hold_time_ms INTEGER NOT NULL,
+    PRIMARY KEY (match_id, player_id)
+  );
+  CREATE INDEX match_participants_player ON match_participants(player_id);
+
+  CREATE TABLE territory_captures (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    match_id INTEGER NOT NULL REFERENCES matches(id) ON DELETE CASCADE,
+    territory_id TEXT NOT NULL,
+    player_id TEXT NOT NULL REFERENCES players(id),
+    team_id TEXT NOT NULL,
+    previous_team_id TEXT,
+    captured_at INTEGER NOT NULL
+  );
+  CREATE INDEX territory_captures_match ON territory_captures(match_id);
+  `,
+  `
+  CREATE TABLE match_replays (
+    match_id INTEGER PRIMARY KEY REFERENCES matches(id) ON DELETE CASCADE,
+    format_version INTEGER NOT NULL,
+    data BLOB NOT NULL
+  );
+  `,
+  // Profile ids are secret; the API names players by a hash of theirs instead
+  `
+  ALTER TABLE players ADD COLUMN public_id TEXT;
+  UPDATE players SET public_id = public_player_id(id);
+  CREATE UNIQUE INDEX players_public_id ON players(public_id);
+  `
+];
+
+// Whitelist, since the sort column ends up in the SQL text
+const LEADERBOARD_ORDER: Record<LeaderboardSort, string> = {
+  wins: 'wins DESC, matches_played ASC',
+  captures: 'captures DESC',
+  hold_time: 'hold_time_ms DESC',
+  hit_volume: 'hit_volume DESC',
+  abilities_used: 'abilities_used DESC',
+  matches_played: 'matches_played DESC'
+};
+
+export const MAX_LEADERBOARD_LIMIT = 100;
+const RECENT_MATCHES_LIMIT = 20;
+
+const MATCH_COLUMNS = `
+  m.*, EXISTS (SELECT 1 FROM match_replays r WHERE r.match_id = m.id AND r.format_version = ${REPLAY_FORMAT_VERSION}) AS has_replay
+`;
+
+const PLAYER_COLUMNS = `
+  public_id AS id, name, matches_played AS matchesPlayed, wins, abilities_used AS abilitiesUsed, hit_volume AS hitVolume,
+  captures, hold_time_ms AS holdTimeMs, first_seen_at AS firstSeenAt, last_seen_at AS lastSeenAt
+`;
+
+// Joined with `players pl` for the public id
+const PARTICIPANT_COLUMNS = `
+  pl.public_id AS playerId, p.name, p.team_id AS teamId, p.color, p.won, p.abilities_used AS abilitiesUsed,
+  p.hit_volume AS hitVolume, p.captures, p.hold_time_ms AS holdTimeMs
+`;
+
+interface MatchRow {
+  id: number;
+  room_code: string;
+  mode: MatchSummary['mode'];
+  round: number;
+  win_condition_type: MatchSummary['winCondition']['type'];
+  win_condition_target_ms: number;
+  started_at: number;
+  ended_at: number;
+  winner_team_id: string | null;
+  has_replay: number;
+}
+
+type ParticipantRow = Omit<MatchParticipant, 'won'> & { won: number };
+
+// Same as `getPublicPlayerId` in the shared protocol, but synchronous so SQLite can call it
+function toPublicPlayerId(profileId: string) {
+  return createHash('sha256').update(profileId).digest('hex').slice(0, 24);
+}
+
+function toMatchSummary(row: MatchRow): MatchSummary {
+  return {
+    id: row.id,
+    roomCode: row.room_code,
+    mode: row.mode,
+    round: row.round,
+    winCondition: { type: row.win_condition_type, targetMs: row.win_condition_target_ms },
+    startedAt: row.started_at,
+    endedAt: row.ended_at,
+    winnerTeamId: row.winner_team_id,
+    hasReplay: row.has_replay === 1
+  };
+}
+
+function toParticipant(row: ParticipantRow): MatchParticipant {
+  return { ...row, won: row.won === 1 };
+}
+
+/**
+ * Match history and per-player totals. Totals are denormalized onto `players` when a match is
+ * recorded so the leaderboard never has to aggregate the whole history.
+ */
+export class StatsDatabase {
+  private db: Database.Database;
+
+  constructor(filename: string) {
+    if (filename !== ':memory:') {
+      fs.mkdirSync(path.dirname(filename), { recursive: true });
+    }
+    this.db = new Database(filename);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('foreign_keys = ON');
+    this.db.function('public_player_id', { deterministic: true }, (id) => toPublicPlayerId(String(id)));
+    this.migrate();
+  }
+
+  private migrate() {
+    const version = this.db.pragma('user_version', { simple: true }) as number;
+    for (let i = version; i < MIGRATIONS.length; i++) {
+      this.db.transaction(() => {
+        this.db.exec(MIGRATIONS[i]);
+        this.db.pragma(`user_version = ${i + 1}`);
+      })();
+      console.log(`Applied database migration ${i + 1}`);
+    }
+  }
+
+  // Stores a finished match and folds it into every participant's totals; returns the match id
+  recordMatch(record: MatchRecord): number {
+    const insertMatch = this.db.prepare(`
+      INSERT INTO matches (room_code, mode, round, win_condition_type, win_condition_target_ms, started_at, ended_at, winner_team_id)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    const upsertPlayer = this.db.prepare(`
+      INSERT INTO players (id, public_id, name, matches_played, wins, abilities_used, hit_volume, captures, hold_time_ms, first_seen_at, last_seen_at)
+      VALUES (@playerId, public_player_id(@playerId), @name, 1, @won, @abilitiesUsed, @hitVolume, @captures, @holdTimeMs, @endedAt, @endedAt)
+      ON CONFLICT(id) DO UPDATE SET
+        name = excluded.name,
+        matches_played = matches_played + 1,
+        wins = wins + excluded.wins,
+        abilities_used = abilities_used + excluded.abilities_used,
+        hit_volume = hit_volume + excluded.hit_volume,
+        captures = captures + excluded.captures,
+        hold_time_ms = hold_time_ms + excluded.hold_time_ms,
+        last_seen_at = excluded.last_seen_at
+    `);
+    const insertParticipant = this.db.prepare(`
+      INSERT INTO match_participants (match_id, player_id, name, team_id, color, won, abilities_used, hit_volume, captures, hold_time_ms)
+      VALUES (@matchId, @playerId, @name, @teamId, @color, @won, @abilitiesUsed, @hitVolume, @captures, @holdTimeMs)
+    `);
+    const insertCapture = this.db.prepare(`
+      INSERT INTO territory_captures (match_id, territory_id, player_id, team_id, previous_team_id, captured_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `);
+    const insertReplay = this.db.prepare('INSERT INTO match_replays (match_id, format_version, data) VALUES (?, ?, ?)');
+
+    return this.db.transaction(() => {
+      const { lastInsertRowid } = insertMatch.run(
+        record.roomCode,
+        record.mode,
+        record.round,
+        record.winCondition.type,
+        record.winCondition.targetMs,
+        record.startedAt,
+        record.endedAt,
+        record.winnerTeamId
+      );
+      const matchId = Number(lastInsertRowid);
+      for (const participant of record.participants) {
+        const row = {
+          ...participant,
+          matchId,
+          won: participant.won ? 1 : 0,
+          holdTimeMs: Math.round(participant.holdTimeMs),
+          endedAt: record.endedAt
+        };
+        upsertPlayer.run(row);
+        insertParticipant.run(row);
+      }
+      for (const capture of record.captures) {
+        insertCapture.run(matchId, capture.territoryId, capture.playerId, capture.teamId, capture.previousTeamId, capture.capturedAt);
+      }
+      if (record.replay) {
+        insertReplay.run(matchId, REPLAY_FORMAT_VERSION, record.replay);
+      }
+      return matchId;
+    })();
+  }
+
+  getLeaderboard(sort: LeaderboardSort, limit: number): PlayerTotals[] {
+    const clampedLimit = Math.max(1, Math.min(MAX_LEADERBOARD_LIMIT, Math.floor(limit)));
+    return this.db
+      .prepare(`SELECT ${PLAYER_COLUMNS} FROM players ORDER BY ${LEADERBOARD_ORDER[sort]}, last_seen_at DESC LIMIT ?`)
+      .all(clampedLimit) as PlayerTotals[];
+  }
+
+  // By public id
+  getPlayer(publicId: string): { player: PlayerTotals; recentMatches: (MatchSummary & { result: MatchParticipant })[] } | null {
+    const player = this.db.prepare(`SELECT ${PLAYER_COLUMNS} FROM players WHERE public_id = ?`).get(publicId) as PlayerTotals | undefined;
+    if (!player) {
+      return null;
+    }
+    const rows = this.db
+      .prepare(`
+        SELECT ${MATCH_COLUMNS}, ${PARTICIPANT_COLUMNS}
+        FROM match_participants p JOIN matches m ON m.id = p.match_id JOIN players pl ON pl.id = p.player_id
+        WHERE pl.public_id = ?
+        ORDER BY m.ended_at DESC
+        LIMIT ?
+      `)
+      .all(publicId, RECENT_MATCHES_LIMIT) as (MatchRow & ParticipantRow)[];
+    return {
+      player,
+      recentMatches: rows.map((row) => ({
+        ...toMatchSummary(row),
+        result: toParticipant({
+          playerId: row.playerId,
+          name: row.name,
+          teamId: row.teamId,
+          color: row.color,
+          won: row.won,
+          abilitiesUsed: row.abilitiesUsed,
+          hitVolume: row.hitVolume,
+          captures: row.captures,
+          holdTimeMs: row.holdTimeMs
+        })
+      }))
+    };
+  }
+
+  getMatch(id: number): { match: MatchSummary; participants: MatchParticipant[]; captures: TerritoryCapture[] } | null {
+    const row = this.db.prepare(`SELECT ${MATCH_COLUMNS} FROM matches m WHERE m.id = ?`).get(id) as MatchRow | undefined;
+    if (!row) {
+      return null;
+    }
+    const participants = this.db
+      .prepare(`
+        SELECT ${PARTICIPANT_COLUMNS}
+        FROM match_participants p JOIN players pl ON pl.id = p.player_id
+        WHERE p.match_id = ? ORDER BY p.hold_time_ms DESC
+      `)
+      .all(id) as ParticipantRow[];
+    const captures = this.db
+      .prepare(`
+        SELECT c.territory_id AS territoryId, pl.public_id AS playerId, c.team_id AS teamId,
+          c.previous_team_id AS previousTeamId, c.captured_at AS capturedAt
+        FROM territory_captures c JOIN players pl ON pl.id = c.player_id
+        WHERE c.match_id = ? ORDER BY c.captured_at
+      `)
+      .all(id) as TerritoryCapture[];
+    return { match: toMatchSummary(row), participants: participants.map(toParticipant), captures };
+  }
+
+  getRecentMatches(limit: number): MatchSummary[] {
+    const clampedLimit = Math.max(1, Math.min(MAX_LEADERBOARD_LIMIT, Math.floor(limit)));
+    const rows = this.db
+      .prepare(`SELECT ${MATCH_COLUMNS} FROM matches m ORDER BY m.ended_at DESC LIMIT ?`)
+      .all(clampedLimit) as MatchRow[];
+    return rows.map(toMatchSummary);
+  }
+
+  // The gzip'd replay JSON, or null if the match has none in a format this build can play
+  getReplay(matchId: number): Buffer | null {
+    const row = this.db
+      .prepare('SELECT data FROM match_replays WHERE match_id = ? AND format_version = ?')
+      .get(matchId, REPLAY_FORMAT_VERSION) as { data: Buffer } | undefined;
+    return row?.data ?? null;
+  }
+
+  close() {
+    this.db.close();
+  }
+}
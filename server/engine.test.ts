@@ -0,0 +1,313 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { beforeEach, describe, expect, it } from 'vitest';
+import {
+  ABILITY_CONFIG,
+  DEFAULT_MAP_THEME,
+  MAX_ACTIVE_FORCE_FIELDS_PER_PLAYER,
+  PLAYER_MAX_ENERGY,
+  PLAYER_PARTICLE_RATE_PER_SECOND,
+  PLAYER_REGEN_PER_SECOND,
+  type AbilityType,
+  type GameMap,
+  type ServerMessage,
+  type Vector3
+} from '../src/shared/protocol';
+import { NO_BOTS } from './bots';
+import { GameEngine, type EngineEvent } from './engine';
+import { DEFAULT_MATCH_CONFIG } from './match';
+
+// t1 stands alone; t2 and t3 are close enough for one cursor to reach both
+const TEST_MAP: GameMap = {
+  id: 'test',
+  name: 'Test',
+  bounds: { minX: -40, maxX: 40, minY: -20, maxY: 20 },
+  territories: [
+    { id: 't1', position: { x: -20, y: 0, z: 0 }, radius: 2.5, weight: 1 },
+    { id: 't2', position: { x: 20, y: 0, z: 0 }, radius: 2.5, weight: 1 },
+    { id: 't3', position: { x: 20, y: 5, z: 0 }, radius: 2.5, weight: 1 }
+  ],
+  spawnZones: [],
+  obstacles: [],
+  theme: DEFAULT_MAP_THEME
+};
+
+const START = 1_000_000;
+
+function messagesOf<T extends ServerMessage['type']>(events: EngineEvent[], type: T) {
+  return events.flatMap((event) =>
+    event.kind === 'message' && event.message.type === type ? [event.message as Extract<ServerMessage, { type: T }>] : []
+  );
+}
+
+function rejectionsOf(events: EngineEvent[]) {
+  return messagesOf(events, 'action_rejected').map((message) => message.reason);
+}
+
+describe('GameEngine', () => {
+  let now: number;
+  let engine: GameEngine;
+
+  // Moves the clock on and runs a tick at the new time
+  const advance = (ms: number) => {
+    now += ms;
+    return engine.tick(now);
+  };
+
+  const join = (name: string) =>
+    engine.join({ resumeToken: null, name, color: null, profileId: null, spectator: false }).id;
+
+  const addForce = (playerId: string, forceType: AbilityType, position: Vector3 = { x: 0, y: 0, z: 0 }) =>
+    engine.handleCommand(playerId, { type: 'add_force', forceType, position, requestId: `${forceType}-${now}` });
+
+  const moveCursor = (playerId: string, position: Vector3) => engine.handleCommand(playerId, { type: 'cursor', position });
+
+  const hit = (playerId: string, territoryId: string, amount: number) =>
+    engine.handleCommand(playerId, { type: 'hit_territory', territoryId, amount });
+
+  // Hits a territory the way a client does: one batch per 100ms
+  const pour = (playerId: string, territoryId: string, batches: number, amount: number) => {
+    for (let i = 0; i < batches; i++) {
+      hit(playerId, territoryId, amount);
+      advance(100);
+    }
+  };
+
+  const lastSync = (events: EngineEvent[]) => messagesOf(events, 'sync').at(-1)!;
+
+  const statsOf = (events: EngineEvent[], playerId: string) => lastSync(events).playerStats.find((s) => s.id === playerId)!;
+
+  const territoryOf = (events: EngineEvent[], territoryId: string) =>
+    lastSync(events).territories.find((t) => t.id === territoryId)!;
+
+  beforeEach(() => {
+    now = START;
+    // Never enough players to start a round: the lobby is playable and its clock never runs out
+    engine = new GameEngine(
+      'TEST',
+      { maxPlayers: 8, mode: 'ffa', teamCount: 2, match: { ...DEFAULT_MATCH_CONFIG, minPlayers: 99 }, maps: [TEST_MAP], bots: NO_BOTS },
+      () => now
+    );
+  });
+
+  describe('energy', () => {
+    it('spends the ability cost and regenerates over ticks up to the maximum', () => {
+      const player = join('A');
+      expect(messagesOf(addForce(player, 'attractor'), 'force_added')).toHaveLength(1);
+      expect(statsOf(advance(0), player).energy).toBe(PLAYER_MAX_ENERGY - ABILITY_CONFIG.attractor.energyCost);
+
+      expect(statsOf(advance(500), player).energy).toBeCloseTo(
+        PLAYER_MAX_ENERGY - ABILITY_CONFIG.attractor.energyCost + PLAYER_REGEN_PER_SECOND * 0.5
+      );
+      expect(statsOf(advance(5000), player).energy).toBe(PLAYER_MAX_ENERGY);
+    });
+
+    it('rejects an ability the player cannot afford', () => {
+      const player = join('A');
+      for (const type of ['attractor', 'repulsor', 'vortex'] as const) {
+        expect(rejectionsOf(addForce(player, type))).toEqual([]);
+      }
+      expect(rejectionsOf(addForce(player, 'pulse'))).toEqual(['not_enough_energy']);
+    });
+  });
+
+  describe('cooldowns', () => {
+    it('rejects an ability until its cooldown has passed', () => {
+      const player = join('A');
+      addForce(player, 'attractor');
+
+      advance(ABILITY_CONFIG.attractor.cooldownMs - 1);
+      const early = addForce(player, 'attractor');
+      expect(rejectionsOf(early)).toEqual(['ability_on_cooldown']);
+      expect(messagesOf(early, 'action_rejected')[0].requestId).toBe(`attractor-${now}`);
+
+      advance(1);
+      expect(messagesOf(addForce(player, 'attractor'), 'force_added')).toHaveLength(1);
+    });
+
+    it('keeps each ability on its own cooldown', () => {
+      const player = join('A');
+      addForce(player, 'attractor');
+      expect(rejectionsOf(addForce(player, 'repulsor'))).toEqual([]);
+    });
+  });
+
+  describe('force fields', () => {
+    it(`caps a player at ${MAX_ACTIVE_FORCE_FIELDS_PER_PLAYER} active force fields`, () => {
+      const player = join('A');
+      for (let i = 0; i < MAX_ACTIVE_FORCE_FIELDS_PER_PLAYER; i++) {
+        expect(messagesOf(addForce(player, 'attractor'), 'force_added')).toHaveLength(1);
+        // Long enough for the cooldown and the energy, well short of the lifetime
+        advance(1500);
+      }
+      expect(rejectionsOf(addForce(player, 'attractor'))).toEqual(['max_active_force_fields_reached']);
+    });
+
+    it('does not count other players\' force fields against the cap', () => {
+      const a = join('A');
+      const b = join('B');
+      for (let i = 0; i < MAX_ACTIVE_FORCE_FIELDS_PER_PLAYER; i++) {
+        addForce(a, 'attractor');
+        advance(1500);
+      }
+      expect(messagesOf(addForce(b, 'attractor'), 'force_added')).toHaveLength(1);
+    });
+
+    it('expires a force field once its lifetime and fade-out have passed', () => {
+      const player = join('A');
+      const [{ force }] = messagesOf(addForce(player, 'attractor'), 'force_added');
+
+      // Lifetime plus the 500ms fade-out: still there (the sync leaves force fields out when
+      // nothing changed)
+      expect(lastSync(advance(ABILITY_CONFIG.attractor.lifetimeMs + 500)).forceFields).toBeUndefined();
+
+      const expired = lastSync(advance(1));
+      expect(expired.forceFields).toEqual([]);
+      expect(force.createdAt).toBe(START);
+    });
+
+    it('frees a slot under the cap when a force field expires', () => {
+      const player = join('A');
+      for (let i = 0; i < MAX_ACTIVE_FORCE_FIELDS_PER_PLAYER; i++) {
+        addForce(player, 'attractor');
+        advance(1500);
+      }
+      // The first one went in 6s ago
+      advance(ABILITY_CONFIG.attractor.lifetimeMs + 500 - 6000 + 1);
+      expect(messagesOf(addForce(player, 'attractor'), 'force_added')).toHaveLength(1);
+    });
+
+    it('removes a player\'s force fields when they leave', () => {
+      const a = join('A');
+      join('B');
+      addForce(a, 'attractor');
+      engine.leave(a);
+      expect(lastSync(advance(50)).forceFields).toEqual([]);
+    });
+  });
+
+  describe('territories', () => {
+    const T1 = TEST_MAP.territories[0];
+
+    it('captures a neutral territory with the first hit that lands', () => {
+      const player = join('A');
+      moveCursor(player, T1.position);
+      advance(1000);
+
+      const events = hit(player, 't1', 10);
+      const [captured] = messagesOf(events, 'territory_captured');
+      expect(captured).toMatchObject({ territoryId: 't1', playerId: player, teamId: player, previousTeamId: null });
+      expect(messagesOf(events, 'territory_lost')).toEqual([]);
+      expect(territoryOf(advance(0), 't1')).toMatchObject({ controllingTeamId: player, points: 1 });
+    });
+
+    it('strengthens a held territory up to 100 points', () => {
+      const player = join('A');
+      moveCursor(player, T1.position);
+      advance(1000);
+      hit(player, 't1', 10);
+      hit(player, 't1', 400);
+      expect(territoryOf(advance(0), 't1').points).toBe(41);
+
+      advance(1000);
+      pour(player, 't1', 2, 400);
+      expect(territoryOf(advance(0), 't1').points).toBe(100);
+    });
+
+    it('announces an attack on a held territory, then flips it once its points run out', () => {
+      const a = join('A');
+      const b = join('B');
+      moveCursor(a, T1.position);
+      moveCursor(b, T1.position);
+      advance(1000);
+      hit(a, 't1', 10);
+      hit(a, 't1', 400); // 41 points
+
+      const attacked = hit(b, 't1', 200);
+      expect(messagesOf(attacked, 'territory_contested')).toEqual([
+        expect.objectContaining({ territoryId: 't1', playerId: b, ownerTeamId: a, points: 21 })
+      ]);
+      expect(messagesOf(attacked, 'territory_captured')).toEqual([]);
+
+      const flipped = hit(b, 't1', 240);
+      expect(messagesOf(flipped, 'territory_lost')).toEqual([
+        expect.objectContaining({ territoryId: 't1', teamId: a, playerId: b, capturingTeamId: b })
+      ]);
+      expect(messagesOf(flipped, 'territory_captured')).toEqual([
+        expect.objectContaining({ territoryId: 't1', teamId: b, previousTeamId: a })
+      ]);
+      // The overshoot becomes the new owner's points
+      expect(territoryOf(advance(0), 't1')).toMatchObject({ controllingTeamId: b, points: 3 });
+    });
+
+    it('sends at most one contested notice per territory every few seconds', () => {
+      const a = join('A');
+      const b = join('B');
+      moveCursor(a, T1.position);
+      moveCursor(b, T1.position);
+      advance(1000);
+      hit(a, 't1', 10);
+      hit(a, 't1', 400); // 41 points
+
+      expect(messagesOf(hit(b, 't1', 10), 'territory_contested')).toHaveLength(1);
+      expect(messagesOf(hit(b, 't1', 10), 'territory_contested')).toHaveLength(0);
+      advance(3000);
+      expect(messagesOf(hit(b, 't1', 10), 'territory_contested')).toHaveLength(1);
+    });
+
+    it('takes more than one oversized hit to flip a fully held territory', () => {
+      const a = join('A');
+      const b = join('B');
+      moveCursor(a, T1.position);
+      moveCursor(b, T1.position);
+      advance(1000);
+      hit(a, 't1', 10);
+      pour(a, 't1', 3, 400);
+      expect(territoryOf(advance(0), 't1').points).toBe(100);
+
+      advance(1000);
+      const events = hit(b, 't1', 1e9);
+      expect(rejectionsOf(events)).toEqual(['hit_budget_exceeded']);
+      expect(messagesOf(events, 'territory_captured')).toEqual([]);
+      // Clamped to one batch of a full stream: 480 hits, 48 points
+      expect(territoryOf(advance(0), 't1')).toMatchObject({ controllingTeamId: a, points: 52 });
+    });
+
+    it('ignores hits from a player whose particles cannot reach the territory', () => {
+      const player = join('A');
+      moveCursor(player, TEST_MAP.territories[1].position);
+      advance(1000);
+
+      const events = hit(player, 't1', 10);
+      expect(rejectionsOf(events)).toEqual(['hit_out_of_range']);
+      expect(messagesOf(events, 'territory_captured')).toEqual([]);
+      // Repeats within the notice interval are clamped silently
+      expect(hit(player, 't1', 10)).toEqual([]);
+    });
+
+    it('shares one particle stream between every territory in reach', () => {
+      const player = join('A');
+      // Halfway between t2 and t3, equally close to both
+      moveCursor(player, { x: 20, y: 2.5, z: 0 });
+      advance(1000);
+
+      const [onT2] = messagesOf(hit(player, 't2', 1e9), 'action_rejected');
+      now += 1000; // past the notice interval, without a tick to refill the budget
+      const [onT3] = messagesOf(hit(player, 't3', 1e9), 'action_rejected');
+
+      expect(onT2.reason).toBe('hit_budget_exceeded');
+      expect(onT3.reason).toBe('hit_budget_exceeded');
+      expect(onT2.accepted).toBeCloseTo(onT3.accepted!);
+      // One batch's worth of one stream in total, not one per territory
+      expect(onT2.accepted! + onT3.accepted!).toBeCloseTo(PLAYER_PARTICLE_RATE_PER_SECOND * 0.1);
+    });
+  });
+
+  it('rejects actions from spectators', () => {
+    const { id } = engine.join({ resumeToken: null, name: null, color: null, profileId: null, spectator: true });
+    expect(rejectionsOf(addForce(id, 'attractor'))).toEqual(['spectators_cannot_act']);
+  });
+});
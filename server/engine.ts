@@ -0,0 +1,949 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { v4 as uuidv4 } from 'uuid';
+import {
+  ABILITY_CONFIG,
+  createCooldowns,
+  isInsideArena,
+  MAX_ACTIVE_FORCE_FIELDS_PER_PLAYER,
+  PLAYER_COLORS,
+  PLAYER_MAX_ENERGY,
+  PLAYER_PARTICLE_RATE_PER_SECOND,
+  PLAYER_REGEN_PER_SECOND,
+  type ActionRejectedReason,
+  type AddForceMessage,
+  type ClientMessage,
+  type Cooldowns,
+  type Emote,
+  type FlowField,
+  type ForceField,
+  type GameMap,
+  type GameMode,
+  type HitTerritoryMessage,
+  type InitMessage,
+  type MatchPhase,
+  type Player,
+  type PingKind,
+  type PlayerStats,
+  type ServerMessage,
+  type Team,
+  type Territory,
+  type Vector3
+} from '../src/shared/protocol';
+import { Bot, pickBotName, type BotConfig, type BotDifficulty } from './bots';
+import { filterProfanity } from './chatFilter';
+import { Match, type MatchConfig } from './match';
+import { RateLimiter } from './rateLimit';
+import { ReplayRecorder } from './replay';
+import { MatchTracker, type MatchRecord } from './stats';
+import { MAX_PLAYERS_PER_TEAM, createTeams, getTeamShades } from './teams';
+
+// Types
+interface ServerPlayer extends Omit<Player, 'connected'> {
+  lastUpdate: number;
+  energy: number;
+  maxEnergy: number;
+  regenPerSecond: number;
+  cooldowns: Cooldowns;
+  lastEnergyTick: number;
+  resumeToken: string;
+  disconnectedAt: number | null;
+  profileId: string; // persistent identity for stats, shared across rooms and sessions
+  bot: boolean;
+}
+
+export interface JoinRequest {
+  resumeToken: string | null;
+  name: string | null;
+  color: string | null;
+  profileId: string | null;
+  spectator: boolean;
+}
+
+export interface EngineOptions {
+  maxPlayers: number;
+  mode: GameMode;
+  teamCount: number; // ignored in free-for-all
+  match: MatchConfig;
+  maps: GameMap[]; // played in order, moving on after every round
+  bots: BotConfig;
+}
+
+// Milliseconds since the epoch, like `Date.now` (the default)
+export type Clock = () => number;
+
+// Who an outbound message is for: every player and spectator (but one, maybe), or just these ids
+export type Recipients = { kind: 'all'; exceptId?: string } | { kind: 'only'; ids: string[] };
+
+// What the engine wants done after a call: messages to deliver, and finished rounds to store
+export type EngineEvent =
+  | { kind: 'message'; to: Recipients; message: ServerMessage }
+  | { kind: 'match_ended'; record: MatchRecord };
+
+// Scoreboard refresh rate while a round is running; phase changes are sent immediately
+const MATCH_STATE_INTERVAL_MS = 1000;
+// A dropped player's slot (color, energy, cooldowns, forces) is held this long for them to resume
+const RESUME_GRACE_MS = 30000;
+// Spectators take no player slot, but every one of them is another socket to broadcast to
+const MAX_SPECTATORS_PER_ROOM = 32;
+
+// Hit validation: clients report particle hits, but the server caps them by what the player's
+// one particle stream could plausibly deliver, shared out between the territories it can reach.
+// The burst is one client hit batch (100ms), so no single message is worth half a territory.
+const HIT_BUDGET_BURST_SECONDS = 0.1;
+const CURSOR_INFLUENCE_RANGE = 12;
+const FORCE_INFLUENCE_RANGE = 20;
+const HIT_POINTS_SCALE = 0.1;
+// A held territory under attack is announced at most this often
+const CONTESTED_NOTICE_INTERVAL_MS = 3000;
+// Hits over budget are clamped; the player hears about it at most this often
+const HIT_REJECTED_NOTICE_INTERVAL_MS = 1000;
+// Force fields outlive their ability's lifetime by this much so clients can finish fading them out
+const FORCE_FADE_OUT_MS = 500;
+// Per player: chat lines, pings and emotes allowed in any window of this many ms
+const CHAT_RATE_LIMIT = 5;
+const CHAT_RATE_WINDOW_MS = 10000;
+const PING_RATE_LIMIT = 3;
+const PING_RATE_WINDOW_MS = 5000;
+const EMOTE_RATE_LIMIT = 3;
+const EMOTE_RATE_WINDOW_MS = 5000;
+
+function createTerritories(map: GameMap) {
+  return new Map<string, Territory>(
+    map.territories.map((t) => [t.id, { ...t, points: 0, controllingTeamId: null, controllingColor: null }])
+  );
+}
+
+function createFlowField(now: number): FlowField {
+  return { seed: Math.floor(Math.random() * 2 ** 32), epoch: now };
+}
+
+function resetPlayer(player: ServerPlayer, now: number) {
+  player.energy = player.maxEnergy;
+  player.cooldowns = createCooldowns();
+  player.lastEnergyTick = now;
+}
+
+function updatePlayerEnergy(player: ServerPlayer, now: number) {
+  const elapsedSeconds = Math.max(0, (now - player.lastEnergyTick) / 1000);
+  if (elapsedSeconds > 0) {
+    player.energy = Math.min(player.maxEnergy, player.energy + elapsedSeconds * player.regenPerSecond);
+    player.lastEnergyTick = now;
+  }
+}
+
+function distance(a: Vector3, b: Vector3) {
+  const dx = a.x - b.x;
+  const dy = a.y - b.y;
+  const dz = a.z - b.z;
+  return Math.sqrt(dx * dx + dy * dy + dz * dz);
+}
+
+function toPublicPlayer(player: ServerPlayer): Player {
+  return {
+    id: player.id,
+    name: player.name,
+    color: player.color,
+    teamId: player.teamId,
+    position: player.position,
+    connected: player.disconnectedAt === null,
+    ...(player.bot ? { bot: true } : {})
+  };
+}
+
+function toPlayerStats(player: ServerPlayer): PlayerStats {
+  return {
+    id: player.id,
+    energy: player.energy,
+    maxEnergy: player.maxEnergy,
+    regenPerSecond: player.regenPerSecond,
+    cooldowns: player.cooldowns
+  };
+}
+
+/**
+ * The rules of one room, with no sockets and no timers: players and spectators come and go
+ * through `join`, `disconnect` and `leave`, act through `handleCommand`, and the world moves on
+ * when the owner calls `tick`. Every call returns what has to go out as a result, in order.
+ * Time comes from the injected clock (and `tick`'s argument), so a test can drive a whole
+ * round without waiting for it.
+ */
+export class GameEngine {
+  private players = new Map<string, ServerPlayer>();
+  // Player id -> the brain of each bot among them
+  private bots = new Map<string, Bot>();
+  private spectators = new Set<string>();
+  private forceFields = new Map<string, ForceField>();
+  // Per player allowance of particle hits the server will accept, by the territory it's for.
+  // Together they never exceed what one particle stream delivers in HIT_BUDGET_BURST_SECONDS.
+  private hitBudgets = new Map<string, Record<string, number>>();
+  // Player id -> when they were last told hits were clamped
+  private hitRejectedNoticeAt = new Map<string, number>();
+  // Resume token -> player id
+  private sessions = new Map<string, string>();
+  private mapIndex = 0;
+  // Set once a round has started on the current map; the next countdown moves on to the next one
+  private mapPlayed = false;
+  private territories: Map<string, Territory>;
+  private flowField: FlowField;
+  private teams: Team[];
+  private match: Match;
+  // Stats and replay for the round in progress; null outside the running phase
+  private tracker: MatchTracker | null = null;
+  private recorder: ReplayRecorder | null = null;
+  // Territory id -> profile id of whoever captured it, for per-player hold time
+  private capturedBy = new Map<string, string>();
+  // Territory id -> when its last `territory_contested` went out
+  private contestedNoticeAt = new Map<string, number>();
+  private forcesDirty = false;
+  private lastMatchStateSent = 0;
+  private chatLimiter = new RateLimiter(CHAT_RATE_LIMIT, CHAT_RATE_WINDOW_MS);
+  private pingLimiter = new RateLimiter(PING_RATE_LIMIT, PING_RATE_WINDOW_MS);
+  private emoteLimiter = new RateLimiter(EMOTE_RATE_LIMIT, EMOTE_RATE_WINDOW_MS);
+
+  private lastTick: number;
+  private tickCount = 0;
+  // Events queued by the call in progress; handed back (and cleared) when it returns
+  private outbox: EngineEvent[] = [];
+
+  constructor(readonly code: string, readonly options: EngineOptions, private clock: Clock = Date.now) {
+    const now = clock();
+    this.lastTick = now;
+    this.match = new Match(options.match, now);
+    this.territories = createTerritories(this.map);
+    this.flowField = createFlowField(now);
+    this.teams = options.mode === 'teams' ? createTeams(options.teamCount) : [];
+  }
+
+  get map() {
+    return this.options.maps[this.mapIndex];
+  }
+
+  get playerCount() {
+    return this.players.size;
+  }
+
+  // Bots only hold a slot until someone wants it
+  private get humanCount() {
+    return this.players.size - this.bots.size;
+  }
+
+  get spectatorCount() {
+    return this.spectators.size;
+  }
+
+  isFull() {
+    return this.humanCount >= this.options.maxPlayers;
+  }
+
+  // Whether `request` would get in: players need a free slot (or one held for them), spectators
+  // only need to be under the spectator cap
+  canAdmit(request: JoinRequest) {
+    if (request.spectator) {
+      return this.spectators.size < MAX_SPECTATORS_PER_ROOM;
+    }
+    return !this.isFull() || this.canResume(request.resumeToken);
+  }
+
+  // True if `resumeToken` belongs to a player still held here (so it needs no free slot)
+  canResume(resumeToken: string | null) {
+    return resumeToken !== null && this.sessions.has(resumeToken);
+  }
+
+  // Admits a player (or gives a held one back) or a spectator; check `canAdmit` first. The id is
+  // the one their commands come in under, and the one their `init` is addressed to.
+  join(request: JoinRequest): { id: string; events: EngineEvent[] } {
+    if (request.spectator) {
+      return { id: this.addSpectator(), events: this.drain() };
+    }
+
+    const resumedId = request.resumeToken !== null ? this.sessions.get(request.resumeToken) : undefined;
+    const resumed = resumedId !== undefined ? this.players.get(resumedId) : undefined;
+    if (resumed) {
+      this.resume(resumed);
+      return { id: resumed.id, events: this.drain() };
+    }
+
+    // A bot makes way if it's holding the last slot
+    if (this.players.size >= this.options.maxPlayers) {
+      const [botId] = this.bots.keys();
+      if (botId) {
+        this.removePlayer(botId);
+      }
+    }
+
+    const player = this.createPlayer(request.name, request.color, request.profileId, false);
+    this.sessions.set(player.resumeToken, player.id);
+    this.sendInit(player);
+
+    // Broadcast new player to others
+    this.broadcast({
+      type: 'player_joined',
+      player: toPublicPlayer(player)
+    }, player.id);
+
+    return { id: player.id, events: this.drain() };
+  }
+
+  // Connection dropped: spectators are simply gone, players keep their slot for RESUME_GRACE_MS
+  disconnect(id: string) {
+    if (this.spectators.has(id)) {
+      this.removeSpectator(id);
+      return this.drain();
+    }
+
+    const player = this.players.get(id);
+    if (!player || player.disconnectedAt !== null) {
+      return this.drain();
+    }
+    player.disconnectedAt = this.clock();
+    player.position = null;
+
+    this.broadcast({
+      type: 'player_disconnected',
+      id
+    });
+    return this.drain();
+  }
+
+  // Player or spectator is gone for good (left for another room, or never came back)
+  leave(id: string) {
+    if (this.spectators.has(id)) {
+      this.removeSpectator(id);
+    } else {
+      this.removePlayer(id);
+    }
+    return this.drain();
+  }
+
+  handleCommand(id: string, command: ClientMessage) {
+    this.applyCommand(id, command);
+    return this.drain();
+  }
+
+  // Advances the world to `now`: energy, hit budgets, bots, the match clock, force expiry, and
+  // the `sync` everyone gets every tick
+  tick(now: number) {
+    const elapsedSeconds = Math.max(0, (now - this.lastTick) / 1000);
+    this.lastTick = now;
+
+    for (const player of this.players.values()) {
+      if (player.disconnectedAt !== null && now - player.disconnectedAt > RESUME_GRACE_MS) {
+        this.removePlayer(player.id);
+        continue;
+      }
+      updatePlayerEnergy(player, now);
+      this.updateHitBudgets(player, elapsedSeconds);
+    }
+    this.balanceBots();
+    this.updateBots(now, elapsedSeconds);
+
+    const phase = this.match.update(now, this.players.size, this.territories.values());
+    if (phase === 'countdown') {
+      this.resetBoard(now);
+    }
+    if (phase !== null || (this.match.phase === 'running' && now - this.lastMatchStateSent >= MATCH_STATE_INTERVAL_MS)) {
+      this.broadcast({ type: 'match_state', ...this.match.getState(now) });
+      this.lastMatchStateSent = now;
+    }
+    // After the broadcast, so the replay ends on the final scoreboard
+    this.updateRecording(phase, now, elapsedSeconds * 1000);
+
+    // Clean up expired force fields
+    let forcesChanged = this.forcesDirty;
+    this.forcesDirty = false;
+    for (const [id, force] of this.forceFields.entries()) {
+      if (now - force.createdAt > ABILITY_CONFIG[force.type].lifetimeMs + FORCE_FADE_OUT_MS) {
+        this.forceFields.delete(id);
+        forcesChanged = true;
+      }
+    }
+
+    this.broadcast({
+      type: 'sync',
+      serverTime: now,
+      tick: this.tickCount++,
+      players: Array.from(this.players.values()).filter(p => p.position !== null).map(toPublicPlayer),
+      territories: Array.from(this.territories.values()),
+      playerStats: Array.from(this.players.values()).map(toPlayerStats),
+      ...(forcesChanged ? { forceFields: Array.from(this.forceFields.values()) } : {})
+    });
+    return this.drain();
+  }
+
+  private drain() {
+    const events = this.outbox;
+    this.outbox = [];
+    return events;
+  }
+
+  // Everything game-wide goes out through here, and so into the replay
+  private broadcast(message: ServerMessage, exceptId?: string) {
+    this.recorder?.record(message, this.clock());
+    this.outbox.push({ kind: 'message', to: { kind: 'all', ...(exceptId !== undefined ? { exceptId } : {}) }, message });
+  }
+
+  private sendTo(id: string, message: ServerMessage) {
+    this.outbox.push({ kind: 'message', to: { kind: 'only', ids: [id] }, message });
+  }
+
+  // Chat, pings and emotes: to one team's players, or to everyone (spectators included) when
+  // `teamId` is null. Unlike `broadcast`, nothing here is recorded into the replay.
+  private sendToAudience(message: ServerMessage, teamId: string | null) {
+    const to: Recipients = teamId === null
+      ? { kind: 'all' }
+      : { kind: 'only', ids: Array.from(this.players.values()).filter((p) => p.teamId === teamId).map((p) => p.id) };
+    this.outbox.push({ kind: 'message', to, message });
+  }
+
+  private createPlayer(name: string | null, preferredColor: string | null, profileId: string | null, bot: boolean) {
+    const id = uuidv4();
+    const now = this.clock();
+    // In free-for-all every player is a team of one
+    const teamId = this.options.mode === 'teams' ? this.pickTeam() : id;
+    const color = this.options.mode === 'teams' ? this.allocateTeamColor(teamId) : this.allocateColor(preferredColor);
+
+    const player: ServerPlayer = {
+      id,
+      name: name ?? `Player ${id.slice(0, 4).toUpperCase()}`,
+      color,
+      teamId,
+      position: null,
+      lastUpdate: now,
+      energy: PLAYER_MAX_ENERGY,
+      maxEnergy: PLAYER_MAX_ENERGY,
+      regenPerSecond: PLAYER_REGEN_PER_SECOND,
+      cooldowns: createCooldowns(),
+      lastEnergyTick: now,
+      resumeToken: uuidv4(),
+      disconnectedAt: null,
+      // Without a profile the player's stats are still recorded, just under a one-off id
+      profileId: profileId ?? uuidv4(),
+      bot
+    };
+
+    this.players.set(id, player);
+    this.hitBudgets.set(id, {});
+    this.trackerFor(player)?.addParticipant(player);
+    return player;
+  }
+
+  private removePlayer(id: string) {
+    const player = this.players.get(id);
+    if (!player) {
+      return;
+    }
+    this.players.delete(id);
+    this.sessions.delete(player.resumeToken);
+    this.hitBudgets.delete(id);
+    this.hitRejectedNoticeAt.delete(id);
+    this.bots.delete(id);
+    for (const limiter of [this.chatLimiter, this.pingLimiter, this.emoteLimiter]) {
+      limiter.forget(id);
+    }
+
+    // Remove player's force fields
+    for (const [forceId, force] of this.forceFields.entries()) {
+      if (force.ownerId === id) {
+        this.forceFields.delete(forceId);
+        this.forcesDirty = true;
+      }
+    }
+
+    this.broadcast({
+      type: 'player_left',
+      id
+    });
+  }
+
+  private addBot(difficulty: BotDifficulty) {
+    const names = new Set(Array.from(this.players.values()).map((p) => p.name));
+    const player = this.createPlayer(pickBotName(names), null, null, true);
+    this.bots.set(player.id, new Bot(player.id, difficulty));
+    this.broadcast({ type: 'player_joined', player: toPublicPlayer(player) });
+  }
+
+  // Tops the room up to `bots.fillTo` players while a person is connected to play with them, and
+  // sends bots home as people arrive (or when everyone has gone)
+  private balanceBots() {
+    const { fillTo, difficulty } = this.options.bots;
+    const anyoneHere = Array.from(this.players.values()).some((p) => !p.bot && p.disconnectedAt === null);
+    const wanted = anyoneHere ? Math.max(0, Math.min(fillTo, this.options.maxPlayers) - this.humanCount) : 0;
+    while (this.bots.size < wanted) {
+      this.addBot(difficulty);
+    }
+    for (const botId of Array.from(this.bots.keys()).slice(wanted)) {
+      this.removePlayer(botId);
+    }
+  }
+
+  // Bots play, but their rounds don't go into anyone's stats
+  private trackerFor(player: ServerPlayer) {
+    return player.bot ? null : this.tracker;
+  }
+
+  private applyCommand(id: string, data: ClientMessage) {
+    if (this.spectators.has(id)) {
+      this.sendTo(id, {
+        type: 'action_rejected',
+        reason: 'spectators_cannot_act',
+        ...(data.type === 'add_force' && data.requestId ? { requestId: data.requestId } : {})
+      });
+      return;
+    }
+
+    const p = this.players.get(id);
+    if (!p || p.disconnectedAt !== null) {
+      return;
+    }
+
+    if (data.type === 'cursor') {
+      p.position = data.position;
+      p.lastUpdate = this.clock();
+    } else if (data.type === 'add_force') {
+      this.addForce(p, data);
+    } else if (data.type === 'switch_team') {
+      this.switchTeam(p, data.teamId);
+    } else if (data.type === 'chat') {
+      this.postChat(p, data.text, data.teamOnly ?? false);
+    } else if (data.type === 'ping') {
+      this.placePing(p, data.position, data.kind);
+    } else if (data.type === 'emote') {
+      this.playEmote(p, data.emote);
+    } else if (data.type === 'hit_territory') {
+      this.hitTerritory(p, data);
+    }
+  }
+
+  private addForce(p: ServerPlayer, data: AddForceMessage) {
+    const { position, forceType, angle, requestId } = data;
+    const reject = (reason: ActionRejectedReason) =>
+      this.sendTo(p.id, { type: 'action_rejected', reason, ...(requestId ? { requestId } : {}) });
+
+    if (!this.match.isPlayable()) {
+      reject('match_not_running');
+      return;
+    }
+
+    if (!isInsideArena(position, this.map)) {
+      reject('out_of_bounds');
+      return;
+    }
+
+    const config = ABILITY_CONFIG[forceType];
+
+    const now = this.clock();
+    updatePlayerEnergy(p, now);
+
+    if (p.energy < config.energyCost) {
+      reject('not_enough_energy');
+      return;
+    }
+
+    if (p.cooldowns[forceType] > now) {
+      reject('ability_on_cooldown');
+      return;
+    }
+
+    const activeForceCount = Array.from(this.forceFields.values()).filter((force) => force.ownerId === p.id).length;
+    if (activeForceCount >= MAX_ACTIVE_FORCE_FIELDS_PER_PLAYER) {
+      reject('max_active_force_fields_reached');
+      return;
+    }
+
+    p.energy = Math.max(0, p.energy - config.energyCost);
+    p.cooldowns[forceType] = now + config.cooldownMs;
+
+    const forceId = uuidv4();
+    const force: ForceField = {
+      id: forceId,
+      position,
+      type: forceType,
+      angle: angle ?? 0,
+      ownerId: p.id,
+      createdAt: now,
+      color: p.color
+    };
+    this.forceFields.set(forceId, force);
+    this.trackerFor(p)?.recordAbility(p);
+
+    // Broadcast new force field immediately; the request id lets the owner swap in the real one
+    // for its ghost
+    this.broadcast({
+      type: 'force_added',
+      force,
+      ...(requestId ? { requestId } : {})
+    });
+  }
+
+  private hitTerritory(p: ServerPlayer, data: HitTerritoryMessage) {
+    const t = this.territories.get(data.territoryId);
+    if (!t || !this.match.isPlayable()) {
+      return;
+    }
+
+    const requested = data.amount;
+    const budgets = this.hitBudgets.get(p.id) ?? {};
+    const accepted = Math.min(requested, budgets[t.id] ?? 0);
+    budgets[t.id] = (budgets[t.id] ?? 0) - accepted;
+
+    if (accepted < requested) {
+      this.noticeHitsRejected(p, t.id, accepted);
+    }
+    if (accepted <= 0) {
+      return;
+    }
+
+    this.trackerFor(p)?.recordHits(p, accepted);
+
+    const amount = accepted * HIT_POINTS_SCALE; // scale down hits
+    if (t.controllingTeamId === p.teamId) {
+      t.points = Math.min(100, t.points + amount);
+      return;
+    }
+
+    const previousTeamId = t.controllingTeamId;
+    const now = this.clock();
+    t.points -= amount;
+    if (t.points <= 0) {
+      this.trackerFor(p)?.recordCapture(p, t.id, previousTeamId, now);
+      this.capturedBy.set(t.id, p.profileId);
+      t.controllingTeamId = p.teamId;
+      t.controllingColor = this.getTeamColor(p);
+      this.recorder?.recordCapture(t.id, t.controllingTeamId, t.controllingColor, now);
+      t.points = Math.min(100, Math.abs(t.points));
+      this.contestedNoticeAt.delete(t.id);
+      if (previousTeamId !== null) {
+        this.broadcast({ type: 'territory_lost', territoryId: t.id, teamId: previousTeamId, playerId: p.id, capturingTeamId: p.teamId });
+      }
+      this.broadcast({
+        type: 'territory_captured',
+        territoryId: t.id,
+        playerId: p.id,
+        teamId: p.teamId,
+        color: t.controllingColor,
+        previousTeamId
+      });
+    } else if (previousTeamId !== null && now - (this.contestedNoticeAt.get(t.id) ?? -Infinity) >= CONTESTED_NOTICE_INTERVAL_MS) {
+      this.contestedNoticeAt.set(t.id, now);
+      this.broadcast({
+        type: 'territory_contested',
+        territoryId: t.id,
+        playerId: p.id,
+        teamId: p.teamId,
+        ownerTeamId: previousTeamId,
+        points: t.points
+      });
+    }
+  }
+
+  // Clients batch hits every 100ms, so a player spraying out of range would otherwise get a
+  // rejection back ten times a second
+  private noticeHitsRejected(p: ServerPlayer, territoryId: string, accepted: number) {
+    const now = this.clock();
+    if (now - (this.hitRejectedNoticeAt.get(p.id) ?? -Infinity) < HIT_REJECTED_NOTICE_INTERVAL_MS) {
+      return;
+    }
+    this.hitRejectedNoticeAt.set(p.id, now);
+    this.sendTo(
+      p.id,
+      accepted <= 0
+        ? { type: 'action_rejected', reason: 'hit_out_of_range', territoryId }
+        : { type: 'action_rejected', reason: 'hit_budget_exceeded', territoryId, accepted }
+    );
+  }
+
+  private addSpectator() {
+    const id = uuidv4();
+    this.spectators.add(id);
+
+    this.sendTo(id, {
+      type: 'init',
+      id,
+      spectator: true,
+      resumeToken: null,
+      color: null,
+      ...this.getBoardSnapshot()
+    });
+    this.sendTo(id, { type: 'match_state', ...this.match.getState(this.clock()) });
+    this.broadcast({ type: 'spectator_count', count: this.spectators.size }, id);
+
+    return id;
+  }
+
+  private removeSpectator(id: string) {
+    this.spectators.delete(id);
+    this.broadcast({ type: 'spectator_count', count: this.spectators.size });
+  }
+
+  private resume(player: ServerPlayer) {
+    const wasDisconnected = player.disconnectedAt !== null;
+    player.disconnectedAt = null;
+    player.lastUpdate = this.clock();
+
+    this.sendInit(player);
+
+    if (wasDisconnected) {
+      this.broadcast({
+        type: 'player_reconnected',
+        id: player.id
+      }, player.id);
+    }
+  }
+
+  private switchTeam(player: ServerPlayer, teamId: string) {
+    if (this.options.mode !== 'teams' || !this.teams.some((team) => team.id === teamId)) {
+      this.sendTo(player.id, { type: 'action_rejected', reason: 'invalid_team' });
+      return;
+    }
+    if (this.match.phase !== 'lobby') {
+      this.sendTo(player.id, { type: 'action_rejected', reason: 'team_switch_locked' });
+      return;
+    }
+    if (player.teamId === teamId) {
+      return;
+    }
+    if (this.getTeamSize(teamId) >= MAX_PLAYERS_PER_TEAM) {
+      this.sendTo(player.id, { type: 'action_rejected', reason: 'team_full' });
+      return;
+    }
+
+    player.teamId = teamId;
+    player.color = this.allocateTeamColor(teamId, player.id);
+    this.broadcast({ type: 'player_updated', player: toPublicPlayer(player) });
+  }
+
+  private postChat(player: ServerPlayer, text: string, teamOnly: boolean) {
+    const now = this.clock();
+    if (!this.chatLimiter.tryConsume(player.id, now)) {
+      this.sendTo(player.id, { type: 'action_rejected', reason: 'rate_limited' });
+      return;
+    }
+    const toTeam = teamOnly && this.options.mode === 'teams';
+    this.sendToAudience({
+      type: 'chat_posted',
+      id: uuidv4(),
+      playerId: player.id,
+      name: player.name,
+      color: player.color,
+      text: filterProfanity(text),
+      teamOnly: toTeam,
+      sentAt: now
+    }, toTeam ? player.teamId : null);
+  }
+
+  // Pings are for coordinating, so in team games only the player's own team sees them
+  private placePing(player: ServerPlayer, position: Vector3, kind: PingKind) {
+    if (!isInsideArena(position, this.map)) {
+      this.sendTo(player.id, { type: 'action_rejected', reason: 'out_of_bounds' });
+      return;
+    }
+    if (!this.pingLimiter.tryConsume(player.id, this.clock())) {
+      this.sendTo(player.id, { type: 'action_rejected', reason: 'rate_limited' });
+      return;
+    }
+    this.sendToAudience(
+      { type: 'ping_placed', id: uuidv4(), playerId: player.id, color: player.color, position, kind },
+      this.options.mode === 'teams' ? player.teamId : null
+    );
+  }
+
+  private playEmote(player: ServerPlayer, emote: Emote) {
+    if (!this.emoteLimiter.tryConsume(player.id, this.clock())) {
+      this.sendTo(player.id, { type: 'action_rejected', reason: 'rate_limited' });
+      return;
+    }
+    this.sendToAudience({ type: 'emote_played', playerId: player.id, emote }, null);
+  }
+
+  private getTeamSize(teamId: string) {
+    return Array.from(this.players.values()).filter((p) => p.teamId === teamId).length;
+  }
+
+  // Smallest team wins; ties are broken randomly so nobody can predict their side
+  private pickTeam() {
+    const sizes = this.teams.map((team) => ({ id: team.id, size: this.getTeamSize(team.id) }));
+    const smallest = Math.min(...sizes.map((t) => t.size));
+    const candidates = sizes.filter((t) => t.size === smallest);
+    return candidates[Math.floor(Math.random() * candidates.length)].id;
+  }
+
+  // Territories show the team color in team mode and the owner's own color in free-for-all
+  private getTeamColor(player: ServerPlayer) {
+    return this.teams.find((team) => team.id === player.teamId)?.color ?? player.color;
+  }
+
+  // First shade of the team's hue nobody else on the team is wearing
+  private allocateTeamColor(teamId: string, playerId?: string) {
+    const taken = new Set(
+      Array.from(this.players.values())
+        .filter((p) => p.id !== playerId)
+        .map((p) => p.color)
+    );
+    const shades = getTeamShades(teamId);
+    return shades.find((color) => !taken.has(color)) ?? shades[0];
+  }
+
+  // The preferred color if nobody here has it, otherwise a random free one. Colors come back
+  // into the pool as soon as their player leaves.
+  private allocateColor(preferred: string | null) {
+    const taken = new Set(Array.from(this.players.values()).map((p) => p.color));
+    if (preferred !== null && !taken.has(preferred)) {
+      return preferred;
+    }
+    const free = PLAYER_COLORS.filter((color) => !taken.has(color));
+    const pool = free.length > 0 ? free : PLAYER_COLORS;
+    return pool[Math.floor(Math.random() * pool.length)];
+  }
+
+  private sendInit(player: ServerPlayer) {
+    const now = this.clock();
+    updatePlayerEnergy(player, now);
+
+    // Send initial state to the new client
+    this.sendTo(player.id, {
+      type: 'init',
+      id: player.id,
+      spectator: false,
+      resumeToken: player.resumeToken,
+      color: player.color,
+      ...this.getBoardSnapshot()
+    });
+    this.sendTo(player.id, { type: 'match_state', ...this.match.getState(now) });
+  }
+
+  // Everything in `init` that isn't about the receiving player
+  private getBoardSnapshot(): Omit<InitMessage, 'type' | 'id' | 'spectator' | 'resumeToken' | 'color'> {
+    return {
+      roomCode: this.code,
+      spectatorCount: this.spectators.size,
+      mode: this.options.mode,
+      map: this.map,
+      flowField: this.flowField,
+      teams: this.teams,
+      players: Array.from(this.players.values()).map(toPublicPlayer),
+      playerStats: Array.from(this.players.values()).map(toPlayerStats),
+      forceFields: Array.from(this.forceFields.values()),
+      territories: Array.from(this.territories.values()),
+      abilityConfig: ABILITY_CONFIG,
+      maxActiveForceFieldsPerPlayer: MAX_ACTIVE_FORCE_FIELDS_PER_PLAYER
+    };
+  }
+
+  // 0..1 share of a player's particle stream that can reach a territory, based on how close
+  // their cursor and their own force fields are to its surface
+  private getTerritoryInfluence(player: ServerPlayer, territory: Territory) {
+    let influence = 0;
+    if (player.position) {
+      const surfaceDist = Math.max(0, distance(player.position, territory.position) - territory.radius);
+      influence = Math.max(influence, 1 - surfaceDist / CURSOR_INFLUENCE_RANGE);
+    }
+    for (const force of this.forceFields.values()) {
+      if (force.ownerId !== player.id) {
+        continue;
+      }
+      const surfaceDist = Math.max(0, distance(force.position, territory.position) - territory.radius);
+      influence = Math.max(influence, 1 - surfaceDist / FORCE_INFLUENCE_RANGE);
+    }
+    return Math.max(0, Math.min(1, influence));
+  }
+
+  // Each particle hits one territory at most, so a player's stream is split between the
+  // territories in reach by influence: the total refill and cap are one stream's worth (less if
+  // nothing is fully in reach), not one per territory
+  private updateHitBudgets(player: ServerPlayer, elapsedSeconds: number) {
+    const budgets = this.hitBudgets.get(player.id) ?? {};
+    const influences = Array.from(this.territories.values(), (territory) => ({
+      id: territory.id,
+      influence: this.getTerritoryInfluence(player, territory)
+    }));
+    const totalInfluence = influences.reduce((sum, { influence }) => sum + influence, 0);
+    const rate = PLAYER_PARTICLE_RATE_PER_SECOND * Math.min(1, totalInfluence);
+    for (const { id, influence } of influences) {
+      const share = totalInfluence > 0 ? influence / totalInfluence : 0;
+      const cap = rate * share * HIT_BUDGET_BURST_SECONDS;
+      budgets[id] = Math.min(cap, (budgets[id] ?? 0) + rate * share * elapsedSeconds);
+    }
+    this.hitBudgets.set(player.id, budgets);
+  }
+
+  // Fresh territories, full energy, no force fields and new particle weather for the next round,
+  // on the next map once the current one has had its round
+  private resetBoard(now: number) {
+    if (this.mapPlayed && this.options.maps.length > 1) {
+      this.mapIndex = (this.mapIndex + 1) % this.options.maps.length;
+      this.broadcast({ type: 'map_changed', map: this.map });
+    }
+    this.mapPlayed = false;
+    this.territories = createTerritories(this.map);
+    this.flowField = createFlowField(now);
+    this.broadcast({ type: 'flow_field', flowField: this.flowField });
+    this.capturedBy.clear();
+    this.contestedNoticeAt.clear();
+    this.forceFields.clear();
+    this.forcesDirty = true;
+    for (const player of this.players.values()) {
+      resetPlayer(player, now);
+      this.hitBudgets.set(player.id, {});
+    }
+  }
+
+  // Starts tracking stats and recording a replay when a round starts, and hands both over when
+  // the round ends. A round that drops back to the lobby is abandoned and not recorded.
+  private updateRecording(phase: MatchPhase | null, now: number, elapsedMs: number) {
+    if (phase === 'running') {
+      this.mapPlayed = true;
+      this.tracker = new MatchTracker(this.code, this.options.mode, this.match.round, this.options.match.winCondition, now);
+      for (const player of this.players.values()) {
+        this.trackerFor(player)?.addParticipant(player);
+      }
+      this.recorder = new ReplayRecorder(this.code, now, this.getBoardSnapshot(), {
+        type: 'match_state',
+        ...this.match.getState(now)
+      });
+    } else if (phase === 'ended' && this.tracker) {
+      const record: MatchRecord = {
+        ...this.tracker.finish(now, this.match.winnerTeamId),
+        replay: this.recorder?.finish(now) ?? null
+      };
+      this.tracker = null;
+      this.recorder = null;
+      this.outbox.push({ kind: 'match_ended', record });
+    } else if (phase !== null) {
+      this.tracker = null;
+      this.recorder = null;
+    } else if (this.tracker) {
+      for (const profileId of this.capturedBy.values()) {
+        this.tracker.addHoldTime(profileId, elapsedMs);
+      }
+    }
+  }
+
+  private updateBots(now: number, elapsedSeconds: number) {
+    for (const bot of this.bots.values()) {
+      const player = this.players.get(bot.playerId);
+      if (!player) {
+        continue;
+      }
+      const commands = bot.update({
+        now,
+        elapsedSeconds,
+        map: this.map,
+        teamId: player.teamId,
+        energy: player.energy,
+        cooldowns: player.cooldowns,
+        territories: this.territories.values(),
+        forceFields: this.forceFields.values(),
+        opponents: Array.from(this.players.values()).flatMap((p) =>
+          p.teamId !== player.teamId && p.position ? [p.position] : []
+        )
+      });
+      for (const command of commands) {
+        this.applyCommand(bot.playerId, command);
+      }
+    }
+  }
+}
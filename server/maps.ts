@@ -0,0 +1,47 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import fs from 'fs';
+import path from 'path';
+import { parseGameMap, type GameMap } from '../src/shared/protocol';
+
+/**
+ * Reads every `*.json` map in `dir`, in file name order. Any file that doesn't parse or
+ * describes an impossible layout throws, naming the file and the offending field, so a bad
+ * map stops the server at startup instead of surfacing mid-round.
+ */
+export function loadMaps(dir: string): GameMap[] {
+  const files = fs.readdirSync(dir).filter((file) => file.endsWith('.json')).sort();
+  if (files.length === 0) {
+    throw new Error(`No maps found in ${dir}`);
+  }
+
+  const maps: GameMap[] = [];
+  for (const file of files) {
+    const parsed = parseGameMap(fs.readFileSync(path.join(dir, file), 'utf8'));
+    if (parsed.ok === false) {
+      throw new Error(`Invalid map ${file}: ${parsed.error}`);
+    }
+    if (maps.some((map) => map.id === parsed.message.id)) {
+      throw new Error(`Invalid map ${file}: id "${parsed.message.id}" is already used by another map`);
+    }
+    maps.push(parsed.message);
+  }
+  return maps;
+}
+
+// The maps rooms cycle through, in order: `ids` (comma separated) if given, otherwise all of them
+export function getMapRotation(maps: GameMap[], ids: string | undefined): GameMap[] {
+  if (!ids?.trim()) {
+    return maps;
+  }
+  return ids.split(',').map((id) => {
+    const map = maps.find((m) => m.id === id.trim());
+    if (!map) {
+      throw new Error(`Unknown map "${id.trim()}" in MAP_ROTATION`);
+    }
+    return map;
+  });
+}
@@ -0,0 +1,186 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { MatchPhase, MatchScore, MatchState, Territory, WinCondition } from '../src/shared/protocol';
+
+export interface MatchConfig {
+  minPlayers: number;
+  countdownMs: number;
+  roundLengthMs: number;
+  endedMs: number; // how long the victory screen stays up
+  intermissionMs: number;
+  winCondition: WinCondition;
+}
+
+export const DEFAULT_MATCH_CONFIG: MatchConfig = {
+  minPlayers: 2,
+  countdownMs: 5000,
+  roundLengthMs: 3 * 60 * 1000,
+  endedMs: 8000,
+  intermissionMs: 10000,
+  winCondition: { type: 'hold_time', targetMs: 90 * 1000 }
+};
+
+/**
+ * Round state machine: lobby -> countdown -> running -> ended -> intermission -> countdown ...
+ * Drops back to lobby if players fall below `minPlayers` during a countdown or intermission; a running
+ * round carries on with however many are left and only ends early once the room is empty.
+ * Player counts are whatever the owner passes in (bots and dropped players whose slots are still
+ * held count too). The owner drives it with `update` and reacts to the phase it returns.
+ */
+export class Match {
+  phase: MatchPhase = 'lobby';
+  phaseEndsAt: number | null = null;
+  round = 0;
+  winnerTeamId: string | null = null;
+
+  // All keyed by team id
+  private holdTimeMs = new Map<string, number>();
+  private teamColors = new Map<string, string>();
+  private territoriesHeld = new Map<string, number>();
+  private dominationSince: number | null = null;
+  private lastUpdate: number;
+
+  constructor(readonly config: MatchConfig, now: number) {
+    this.lastUpdate = now;
+  }
+
+  // Abilities and territory hits only count while warming up in the lobby or during a round
+  isPlayable() {
+    return this.phase === 'lobby' || this.phase === 'running';
+  }
+
+  // Advances the state machine; returns the new phase if it changed
+  update(now: number, playerCount: number, territories: Iterable<Territory>): MatchPhase | null {
+    const elapsedMs = Math.max(0, now - this.lastUpdate);
+    this.lastUpdate = now;
+
+    if (this.phase === 'running') {
+      this.accumulateHoldTime(now, elapsedMs, territories);
+      if (playerCount === 0) {
+        return this.enter('lobby', now);
+      }
+      // Out of time: most hold time wins, or a draw if nobody held anything
+      const timeUp = this.hasPhaseEnded(now);
+      if (timeUp && this.winnerTeamId === null) {
+        this.winnerTeamId = this.getLeader();
+      }
+      return this.winnerTeamId !== null || timeUp ? this.enter('ended', now) : null;
+    }
+
+    if (playerCount < this.config.minPlayers && this.phase !== 'lobby' && this.phase !== 'ended') {
+      return this.enter('lobby', now);
+    }
+
+    switch (this.phase) {
+      case 'lobby':
+        return playerCount >= this.config.minPlayers ? this.enter('countdown', now) : null;
+      case 'countdown':
+        return this.hasPhaseEnded(now) ? this.enter('running', now) : null;
+      case 'ended':
+        return this.hasPhaseEnded(now) ? this.enter('intermission', now) : null;
+      case 'intermission':
+        return this.hasPhaseEnded(now) ? this.enter('countdown', now) : null;
+    }
+    return null;
+  }
+
+  getState(now: number): MatchState {
+    return {
+      phase: this.phase,
+      round: this.round,
+      phaseEndsAt: this.phaseEndsAt,
+      serverTime: now,
+      roundLengthMs: this.config.roundLengthMs,
+      minPlayers: this.config.minPlayers,
+      winCondition: this.config.winCondition,
+      scores: this.getScores(),
+      winnerTeamId: this.winnerTeamId
+    };
+  }
+
+  private getScores(): MatchScore[] {
+    return Array.from(this.holdTimeMs.entries())
+      .map(([teamId, holdTimeMs]) => ({
+        teamId,
+        color: this.teamColors.get(teamId) ?? '#444444',
+        holdTimeMs,
+        territoriesHeld: this.territoriesHeld.get(teamId) ?? 0
+      }))
+      .sort((a, b) => b.holdTimeMs - a.holdTimeMs);
+  }
+
+  private getLeader() {
+    const [leader] = this.getScores();
+    return leader?.teamId ?? null;
+  }
+
+  private hasPhaseEnded(now: number) {
+    return this.phaseEndsAt !== null && now >= this.phaseEndsAt;
+  }
+
+  private accumulateHoldTime(now: number, elapsedMs: number, territories: Iterable<Territory>) {
+    this.territoriesHeld.clear();
+    let total = 0;
+    for (const t of territories) {
+      total++;
+      if (!t.controllingTeamId) {
+        continue;
+      }
+      const teamId = t.controllingTeamId;
+      // Weighted territories count for more than their share of the clock
+      this.holdTimeMs.set(teamId, (this.holdTimeMs.get(teamId) ?? 0) + elapsedMs * t.weight);
+      this.territoriesHeld.set(teamId, (this.territoriesHeld.get(teamId) ?? 0) + 1);
+      if (t.controllingColor) {
+        this.teamColors.set(teamId, t.controllingColor);
+      }
+    }
+
+    const { type, targetMs } = this.config.winCondition;
+    if (type === 'hold_time') {
+      for (const [teamId, holdTimeMs] of this.holdTimeMs.entries()) {
+        if (holdTimeMs >= targetMs) {
+          this.winnerTeamId = teamId;
+          return;
+        }
+      }
+    } else {
+      const dominator = Array.from(this.territoriesHeld.entries()).find(([, held]) => total > 0 && held === total);
+      if (!dominator) {
+        this.dominationSince = null;
+      } else if (this.dominationSince === null) {
+        this.dominationSince = now;
+      } else if (now - this.dominationSince >= targetMs) {
+        this.winnerTeamId = dominator[0];
+      }
+    }
+  }
+
+  private enter(phase: MatchPhase, now: number) {
+    this.phase = phase;
+    switch (phase) {
+      case 'lobby':
+      case 'countdown':
+        this.phaseEndsAt = phase === 'countdown' ? now + this.config.countdownMs : null;
+        this.holdTimeMs.clear();
+        this.teamColors.clear();
+        this.territoriesHeld.clear();
+        this.dominationSince = null;
+        this.winnerTeamId = null;
+        break;
+      case 'running':
+        this.round++;
+        this.phaseEndsAt = now + this.config.roundLengthMs;
+        break;
+      case 'ended':
+        this.phaseEndsAt = now + this.config.endedMs;
+        break;
+      case 'intermission':
+        this.phaseEndsAt = now + this.config.intermissionMs;
+        break;
+    }
+    return phase;
+  }
+}
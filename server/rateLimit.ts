@@ -0,0 +1,31 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * At most `limit` actions per key in any `windowMs`. Keys are usually player ids; drop them
+ * with `forget` when the player is gone.
+ */
+export class RateLimiter {
+  // Key -> times of the actions still inside the window, oldest first
+  private history = new Map<string, number[]>();
+
+  constructor(private limit: number, private windowMs: number) {}
+
+  // Records the action and returns true if it's allowed; a refused action doesn't count
+  tryConsume(key: string, now: number) {
+    const recent = (this.history.get(key) ?? []).filter((at) => now - at < this.windowMs);
+    if (recent.length >= this.limit) {
+      this.history.set(key, recent);
+      return false;
+    }
+    recent.push(now);
+    this.history.set(key, recent);
+    return true;
+  }
+
+  forget(key: string) {
+    this.history.delete(key);
+  }
+}
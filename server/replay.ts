@@ -0,0 +1,74 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { gzipSync } from 'zlib';
+import {
+  REPLAY_FORMAT_VERSION,
+  type InitMessage,
+  type MatchStateMessage,
+  type Replay,
+  type ReplayCapture,
+  type ReplayEvent,
+  type ServerMessage
+} from '../src/shared/protocol';
+
+// Syncs go out at 20Hz; half of them is plenty to watch back. Syncs that change the set of
+// force fields are always kept, since they are how expired forces disappear.
+const REPLAY_SYNC_INTERVAL_MS = 100;
+// The snapshot is the `init` a spectator would get
+const REPLAY_VIEWER_ID = 'replay';
+
+/**
+ * Records everything a room broadcasts during one round, starting from a snapshot of the
+ * board. `finish` returns the replay gzip'd, ready to be stored as a blob.
+ */
+export class ReplayRecorder {
+  private events: ReplayEvent[] = [];
+  private captures: ReplayCapture[] = [];
+  private lastSyncAt = -Infinity;
+
+  constructor(
+    private roomCode: string,
+    private startedAt: number,
+    board: Omit<InitMessage, 'type' | 'id' | 'spectator' | 'resumeToken' | 'color'>,
+    matchState: MatchStateMessage
+  ) {
+    const snapshot: InitMessage = {
+      type: 'init',
+      id: REPLAY_VIEWER_ID,
+      spectator: true,
+      resumeToken: null,
+      color: null,
+      ...board
+    };
+    this.events.push({ t: 0, message: snapshot }, { t: 0, message: matchState });
+  }
+
+  record(message: ServerMessage, now: number) {
+    if (message.type === 'sync' && !message.forceFields) {
+      if (now - this.lastSyncAt < REPLAY_SYNC_INTERVAL_MS) {
+        return;
+      }
+      this.lastSyncAt = now;
+    }
+    this.events.push({ t: now - this.startedAt, message });
+  }
+
+  recordCapture(territoryId: string, teamId: string, color: string, now: number) {
+    this.captures.push({ t: now - this.startedAt, territoryId, teamId, color });
+  }
+
+  finish(now: number): Buffer {
+    const replay: Replay = {
+      version: REPLAY_FORMAT_VERSION,
+      roomCode: this.roomCode,
+      startedAt: this.startedAt,
+      durationMs: now - this.startedAt,
+      events: this.events,
+      captures: this.captures
+    };
+    return gzipSync(JSON.stringify(replay));
+  }
+}
@@ -0,0 +1,162 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { WebSocket } from 'ws';
+import type { ClientMessage, RoomSummary, ServerMessage } from '../src/shared/protocol';
+import { GameEngine, type EngineEvent, type EngineOptions, type JoinRequest } from './engine';
+import type { MatchRecord } from './stats';
+
+export interface RoomOptions extends EngineOptions {
+  isPrivate: boolean;
+}
+
+const TICK_INTERVAL_MS = 50; // 20Hz
+// Rooms linger this long without players so a fresh lobby survives until its creator joins
+const EMPTY_ROOM_TTL_MS = 30000;
+
+export interface RoomHooks {
+  onEmpty: (room: Room) => void;
+  // A round finished (not abandoned); the record covers everyone who took part
+  onMatchEnded: (room: Room, record: MatchRecord) => void;
+}
+
+export function send(ws: WebSocket, data: ServerMessage) {
+  if (ws.readyState === WebSocket.OPEN) {
+    ws.send(JSON.stringify(data));
+  }
+}
+
+/**
+ * One independent match on the wire: the sockets of its players and spectators around a
+ * `GameEngine`, driven by a 20Hz interval. Delivers whatever the engine hands back, and calls
+ * `hooks.onEmpty` once nobody has been connected for a while.
+ */
+export class Room {
+  readonly code: string;
+  readonly options: RoomOptions;
+  readonly createdAt = Date.now();
+
+  private engine: GameEngine;
+  // Player or spectator id -> their socket
+  private sockets = new Map<string, WebSocket>();
+  private interval: ReturnType<typeof setInterval>;
+  private emptySince: number | null = Date.now();
+
+  constructor(code: string, options: RoomOptions, private hooks: RoomHooks) {
+    this.code = code;
+    this.options = options;
+    this.engine = new GameEngine(code, options);
+    this.interval = setInterval(() => this.tick(), TICK_INTERVAL_MS);
+  }
+
+  get map() {
+    return this.engine.map;
+  }
+
+  get playerCount() {
+    return this.engine.playerCount;
+  }
+
+  get spectatorCount() {
+    return this.engine.spectatorCount;
+  }
+
+  isFull() {
+    return this.engine.isFull();
+  }
+
+  canAdmit(request: JoinRequest) {
+    return this.engine.canAdmit(request);
+  }
+
+  getSummary(): RoomSummary {
+    return {
+      code: this.code,
+      playerCount: this.playerCount,
+      maxPlayers: this.options.maxPlayers,
+      spectatorCount: this.spectatorCount,
+      isPrivate: this.options.isPrivate,
+      mode: this.options.mode,
+      mapId: this.map.id,
+      createdAt: this.createdAt
+    };
+  }
+
+  join(ws: WebSocket, request: JoinRequest) {
+    const { id, events } = this.engine.join(request);
+    const previousWs = this.sockets.get(id);
+    this.sockets.set(id, ws);
+    this.emptySince = null;
+
+    // Same player opened a second connection before the first one timed out
+    if (previousWs && previousWs !== ws) {
+      previousWs.close();
+    }
+
+    this.deliver(events);
+    return id;
+  }
+
+  // Connection dropped: the engine holds a player's slot for a while in case they come back
+  disconnect(id: string, ws: WebSocket) {
+    // A resumed player may already be on a newer socket; ignore the old one closing
+    if (this.sockets.get(id) !== ws) {
+      return;
+    }
+    this.sockets.delete(id);
+    this.checkEmpty();
+    this.deliver(this.engine.disconnect(id));
+  }
+
+  // Player is gone for good (left for another room, or never came back)
+  leave(id: string) {
+    this.sockets.delete(id);
+    this.checkEmpty();
+    this.deliver(this.engine.leave(id));
+  }
+
+  handleMessage(id: string, data: ClientMessage) {
+    this.deliver(this.engine.handleCommand(id, data));
+  }
+
+  dispose() {
+    clearInterval(this.interval);
+  }
+
+  // Nobody connected, players or spectators: start the teardown clock
+  private checkEmpty() {
+    if (this.sockets.size === 0) {
+      this.emptySince = Date.now();
+    }
+  }
+
+  private deliver(events: EngineEvent[]) {
+    for (const event of events) {
+      if (event.kind === 'match_ended') {
+        this.hooks.onMatchEnded(this, event.record);
+        continue;
+      }
+      const message = JSON.stringify(event.message);
+      const { to } = event;
+      const sockets = to.kind === 'all'
+        ? Array.from(this.sockets.entries()).filter(([id]) => id !== to.exceptId).map(([, ws]) => ws)
+        : to.ids.map((id) => this.sockets.get(id));
+      for (const ws of sockets) {
+        if (ws?.readyState === WebSocket.OPEN) {
+          ws.send(message);
+        }
+      }
+    }
+  }
+
+  private tick() {
+    const now = Date.now();
+    if (this.emptySince !== null && now - this.emptySince > EMPTY_ROOM_TTL_MS) {
+      this.hooks.onEmpty(this);
+      return;
+    }
+    this.deliver(this.engine.tick(now));
+  }
+}
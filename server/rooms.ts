@@ -0,0 +1,123 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { DEFAULT_ROOM_CODE, PLAYER_COLORS, type GameMap, type RoomSummary } from '../src/shared/protocol';
+import { NO_BOTS, type BotConfig } from './bots';
+import { DEFAULT_MATCH_CONFIG } from './match';
+import { Room, type RoomOptions } from './room';
+import type { MatchRecord } from './stats';
+import { MAX_PLAYERS_PER_TEAM, MAX_TEAMS, MIN_TEAMS } from './teams';
+
+export const DEFAULT_MAX_PLAYERS = 8;
+// One distinct color per player
+export const MAX_PLAYERS_LIMIT = PLAYER_COLORS.length;
+
+// No 0/O or 1/I so codes survive being read out loud
+const ROOM_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const ROOM_CODE_LENGTH = 6;
+// Every room runs its own tick loop, so there is a ceiling on how many can be open at once
+const MAX_ROOMS = 64;
+
+const rooms = new Map<string, Room>();
+let matchRecorder: ((record: MatchRecord) => void) | null = null;
+let mapRotation: GameMap[] = [];
+let defaultRoomBots: BotConfig = NO_BOTS;
+
+// Where finished rounds from every room get persisted
+export function setMatchRecorder(recorder: (record: MatchRecord) => void) {
+  matchRecorder = recorder;
+}
+
+// Maps every new room cycles through, loaded at startup
+export function setMapRotation(maps: GameMap[]) {
+  mapRotation = maps;
+}
+
+// How the public default room fills itself with bots (not at all unless configured)
+export function setDefaultRoomBots(bots: BotConfig) {
+  defaultRoomBots = bots;
+}
+
+// The rotation starting from `mapId`, or from the top if there's no such map
+export function getMapRotationFrom(mapId: string | null) {
+  const start = Math.max(0, mapRotation.findIndex((map) => map.id === mapId));
+  return [...mapRotation.slice(start), ...mapRotation.slice(0, start)];
+}
+
+function generateRoomCode() {
+  let code = '';
+  do {
+    code = '';
+    for (let i = 0; i < ROOM_CODE_LENGTH; i++) {
+      code += ROOM_CODE_ALPHABET[Math.floor(Math.random() * ROOM_CODE_ALPHABET.length)];
+    }
+  } while (rooms.has(code));
+  return code;
+}
+
+function teardownRoom(room: Room) {
+  room.dispose();
+  rooms.delete(room.code);
+  console.log(`Room ${room.code} closed`);
+}
+
+export function createRoom(options: Partial<RoomOptions> = {}, code = generateRoomCode()) {
+  const mode = options.mode ?? 'ffa';
+  const teamCount = Math.max(MIN_TEAMS, Math.min(MAX_TEAMS, options.teamCount ?? MIN_TEAMS));
+  // Team rooms are limited by the shades each team has, free-for-all rooms by the color palette
+  const playerLimit = mode === 'teams' ? teamCount * MAX_PLAYERS_PER_TEAM : MAX_PLAYERS_LIMIT;
+  const maxPlayers = Math.max(1, Math.min(playerLimit, options.maxPlayers ?? DEFAULT_MAX_PLAYERS));
+  const match = options.match ?? DEFAULT_MATCH_CONFIG;
+  const room = new Room(
+    code,
+    {
+      maxPlayers,
+      isPrivate: options.isPrivate ?? false,
+      mode,
+      teamCount,
+      // A round needing more players than the room holds could never start
+      match: { ...match, minPlayers: Math.min(match.minPlayers, maxPlayers) },
+      maps: options.maps?.length ? options.maps : mapRotation,
+      bots: options.bots ?? NO_BOTS
+    },
+    {
+      onEmpty: teardownRoom,
+      onMatchEnded: (_room, record) => matchRecorder?.(record)
+    }
+  );
+  rooms.set(code, room);
+  return room;
+}
+
+// Whether another room can be opened; the default room is always let through
+export function hasRoomCapacity() {
+  return rooms.size < MAX_ROOMS;
+}
+
+// The public room everyone lands in without a code; recreated on demand after teardown
+export function getDefaultRoom() {
+  return rooms.get(DEFAULT_ROOM_CODE) ?? createRoom({ bots: defaultRoomBots }, DEFAULT_ROOM_CODE);
+}
+
+export function getRoom(code: string) {
+  if (code === DEFAULT_ROOM_CODE) {
+    return getDefaultRoom();
+  }
+  return rooms.get(code) ?? null;
+}
+
+export function listPublicRooms(): RoomSummary[] {
+  return Array.from(rooms.values())
+    .filter((room) => !room.options.isPrivate)
+    .map((room) => room.getSummary());
+}
+
+export function getTotalPlayerCount() {
+  let total = 0;
+  for (const room of rooms.values()) {
+    total += room.playerCount;
+  }
+  return total;
+}
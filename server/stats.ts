@@ -0,0 +1,109 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { GameMode, MatchParticipant, TerritoryCapture, WinCondition } from '../src/shared/protocol';
+
+export interface TrackedPlayer {
+  profileId: string;
+  name: string;
+  teamId: string;
+  color: string;
+}
+
+export interface MatchRecord {
+  roomCode: string;
+  mode: GameMode;
+  round: number;
+  winCondition: WinCondition;
+  startedAt: number;
+  endedAt: number;
+  winnerTeamId: string | null;
+  participants: MatchParticipant[];
+  captures: TerritoryCapture[];
+  replay: Buffer | null; // gzip'd `Replay` JSON
+}
+
+/**
+ * Collects what happens during one round so the room can hand it to the database in one go
+ * when the round ends. Anyone who was in the round at any point counts, including players who
+ * left early. Keyed by profile id, so two tabs on one profile count as one participant.
+ */
+export class MatchTracker {
+  private participants = new Map<string, MatchParticipant>();
+  private captures: TerritoryCapture[] = [];
+
+  constructor(
+    private roomCode: string,
+    private mode: GameMode,
+    private round: number,
+    private winCondition: WinCondition,
+    private startedAt: number
+  ) {}
+
+  addParticipant(player: TrackedPlayer) {
+    const existing = this.participants.get(player.profileId);
+    if (existing) {
+      return existing;
+    }
+    const participant: MatchParticipant = {
+      playerId: player.profileId,
+      name: player.name,
+      teamId: player.teamId,
+      color: player.color,
+      won: false,
+      abilitiesUsed: 0,
+      hitVolume: 0,
+      captures: 0,
+      holdTimeMs: 0
+    };
+    this.participants.set(player.profileId, participant);
+    return participant;
+  }
+
+  recordAbility(player: TrackedPlayer) {
+    this.addParticipant(player).abilitiesUsed++;
+  }
+
+  // `amount` is the number of particle hits the server accepted
+  recordHits(player: TrackedPlayer, amount: number) {
+    this.addParticipant(player).hitVolume += amount;
+  }
+
+  recordCapture(player: TrackedPlayer, territoryId: string, previousTeamId: string | null, now: number) {
+    this.addParticipant(player).captures++;
+    this.captures.push({
+      territoryId,
+      playerId: player.profileId,
+      teamId: player.teamId,
+      previousTeamId,
+      capturedAt: now
+    });
+  }
+
+  // Hold time is credited to whoever made the capture, for as long as the territory stays held
+  addHoldTime(profileId: string, ms: number) {
+    const participant = this.participants.get(profileId);
+    if (participant) {
+      participant.holdTimeMs += ms;
+    }
+  }
+
+  finish(now: number, winnerTeamId: string | null): Omit<MatchRecord, 'replay'> {
+    return {
+      roomCode: this.roomCode,
+      mode: this.mode,
+      round: this.round,
+      winCondition: this.winCondition,
+      startedAt: this.startedAt,
+      endedAt: now,
+      winnerTeamId,
+      participants: Array.from(this.participants.values()).map((p) => ({
+        ...p,
+        won: winnerTeamId !== null && p.teamId === winnerTeamId
+      })),
+      captures: this.captures
+    };
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { Team } from '../src/shared/protocol';
+
+interface TeamDefinition {
+  id: string;
+  name: string;
+  hue: number;
+}
+
+const TEAM_DEFINITIONS: TeamDefinition[] = [
+  { id: 'crimson', name: 'Crimson', hue: 345 },
+  { id: 'azure', name: 'Azure', hue: 200 },
+  { id: 'amber', name: 'Amber', hue: 35 },
+  { id: 'jade', name: 'Jade', hue: 150 }
+];
+
+export const MIN_TEAMS = 2;
+export const MAX_TEAMS = TEAM_DEFINITIONS.length;
+
+// Per-player variations on the team hue: [hue offset, lightness]. The first is the team color itself.
+const TEAM_SHADES: [number, number][] = [
+  [0, 60], [-12, 72], [12, 48], [-20, 50], [20, 74], [6, 84]
+];
+export const MAX_PLAYERS_PER_TEAM = TEAM_SHADES.length;
+
+function hslToHex(h: number, s: number, l: number) {
+  const sat = s / 100;
+  const light = l / 100;
+  const a = sat * Math.min(light, 1 - light);
+  const channel = (n: number) => {
+    const k = (n + h / 30) % 12;
+    const value = light - a * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+    return Math.round(value * 255).toString(16).padStart(2, '0');
+  };
+  return `#${channel(0)}${channel(8)}${channel(4)}`.toUpperCase();
+}
+
+function shade(hue: number, [offset, lightness]: [number, number]) {
+  return hslToHex((hue + offset + 360) % 360, 100, lightness);
+}
+
+export function createTeams(count: number): Team[] {
+  return TEAM_DEFINITIONS.slice(0, count).map((team) => ({
+    id: team.id,
+    name: team.name,
+    color: shade(team.hue, TEAM_SHADES[0])
+  }));
+}
+
+// Every color a member of this team may wear, in preference order
+export function getTeamShades(teamId: string) {
+  const team = TEAM_DEFINITIONS.find((t) => t.id === teamId);
+  return team ? TEAM_SHADES.map((s) => shade(team.hue, s)) : [];
+}
@@ -4,9 +4,38 @@
 */
 
 import React, { useEffect, useMemo, useState } from 'react';
+import { AudioPanel } from './components/AudioPanel';
+import { ChatPanel } from './components/ChatPanel';
 import { CosmicCanvas } from './components/CosmicCanvas';
-import { useGameStore } from './store/useGameStore';
-import { Users } from 'lucide-react';
+import { EventFeed } from './components/EventFeed';
+import { JoinScreen } from './components/JoinScreen';
+import { Leaderboard } from './components/Leaderboard';
+import { MatchOverlay } from './components/MatchOverlay';
+import { Minimap } from './components/Minimap';
+import { ReplayControls } from './components/ReplayControls';
+import { ScoreboardPanel } from './components/ScoreboardPanel';
+import { SettingsPanel } from './components/SettingsPanel';
+import { Toasts } from './components/Toasts';
+import { useGameStore, GameMode, Player } from './store/useGameStore';
+import { useToastStore } from './store/useToastStore';
+import { ABILITY_TYPES, DEFAULT_ROOM_CODE, type RoomRejectedReason } from './shared/protocol';
+import { ABILITIES } from './abilities';
+import { startAudioDirector } from './audio/director';
+import { Bot, Check, Crosshair, DoorOpen, Eye, Link, Lock, Users } from 'lucide-react';
+
+const ROOM_ERROR_MESSAGES: Record<RoomRejectedReason, string> = {
+  room_not_found: 'That room does not exist (or has already closed).',
+  room_full: 'That room is full.'
+};
+
+// Practice rooms keep this many players in the arena, topping up with bots
+const PRACTICE_BOT_FILL = 4;
+
+// `?replay=<match id>` opens the replay viewer instead of joining a room
+function readReplayMatchId() {
+  const id = Number(new URLSearchParams(window.location.search).get('replay'));
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
 
 function AbilityChip({
   label,
@@ -45,31 +74,251 @@ function AbilityChip({
   );
 }
 
+function RoomPanel() {
+  const roomCode = useGameStore((state) => state.roomCode);
+  const roomError = useGameStore((state) => state.roomError);
+  const mapName = useGameStore((state) => state.map?.name);
+  const joinRoom = useGameStore((state) => state.joinRoom);
+  const [copied, setCopied] = useState(false);
+  const [creating, setCreating] = useState(false);
+
+  const copyInviteLink = async () => {
+    if (!roomCode) {
+      return;
+    }
+    const url = new URL(window.location.href);
+    url.searchParams.set('room', roomCode);
+    try {
+      await navigator.clipboard.writeText(url.toString());
+      setCopied(true);
+      window.setTimeout(() => setCopied(false), 1500);
+    } catch (e) {
+      console.error('Could not copy invite link', e);
+    }
+  };
+
+  const createPrivateRoom = async (mode: GameMode, botFill = 0) => {
+    setCreating(true);
+    try {
+      const res = await fetch('/api/rooms', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ isPrivate: true, mode, ...(botFill > 0 ? { botFill } : {}) })
+      });
+      if (res.status === 503) {
+        useToastStore.getState().pushToast({ key: 'create-room', kind: 'warning', message: 'The server is full, try again in a bit' });
+        return;
+      }
+      const { room } = await res.json();
+      joinRoom(room.code);
+    } catch (e) {
+      console.error('Could not create room', e);
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-end gap-2">
+      {roomCode && (
+        <div className="flex items-center gap-2 bg-white/10 backdrop-blur-md pl-4 pr-2 py-2 rounded-full border border-white/10 shadow-lg">
+          <DoorOpen size={16} className="text-cyan-400" />
+          <span className="text-sm font-medium">
+            Room <span className="font-mono tracking-widest">{roomCode}</span>
+          </span>
+          {mapName && <span className="text-xs text-gray-400">{mapName}</span>}
+          <button
+            className="h-7 w-7 rounded-full flex items-center justify-center hover:bg-white/15 transition-colors"
+            onClick={copyInviteLink}
+            title="Copy invite link"
+          >
+            {copied ? <Check size={14} className="text-emerald-300" /> : <Link size={14} />}
+          </button>
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <button
+          className="flex items-center gap-2 text-xs uppercase tracking-wider text-gray-300 bg-black/40 hover:bg-white/10 px-3 py-1.5 rounded-full border border-white/10 transition-colors disabled:opacity-50"
+          onClick={() => createPrivateRoom('ffa')}
+          disabled={creating}
+        >
+          <Lock size={12} />
+          New private room
+        </button>
+        <button
+          className="flex items-center gap-2 text-xs uppercase tracking-wider text-gray-300 bg-black/40 hover:bg-white/10 px-3 py-1.5 rounded-full border border-white/10 transition-colors disabled:opacity-50"
+          onClick={() => createPrivateRoom('teams')}
+          disabled={creating}
+        >
+          <Users size={12} />
+          Private team room
+        </button>
+        <button
+          className="flex items-center gap-2 text-xs uppercase tracking-wider text-gray-300 bg-black/40 hover:bg-white/10 px-3 py-1.5 rounded-full border border-white/10 transition-colors disabled:opacity-50"
+          onClick={() => createPrivateRoom('ffa', PRACTICE_BOT_FILL)}
+          disabled={creating}
+          title="A private room with bots to play against"
+        >
+          <Bot size={12} />
+          Practice
+        </button>
+      </div>
+
+      {roomError && (
+        <div className="max-w-xs rounded-lg border border-rose-400/30 bg-rose-950/60 px-3 py-2 text-xs text-rose-200 space-y-2">
+          <p>{ROOM_ERROR_MESSAGES[roomError]}</p>
+          {roomCode !== DEFAULT_ROOM_CODE && (
+            <button className="underline text-rose-100" onClick={() => joinRoom(DEFAULT_ROOM_CODE)}>
+              Join the public room instead
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function PlayerRow({ player, isMe, canFollow }: { player: Player; isMe: boolean; canFollow: boolean }) {
+  const following = useGameStore((state) => state.followPlayerId === player.id);
+  const setFollowPlayer = useGameStore((state) => state.setFollowPlayer);
+
+  return (
+    <li className={`flex items-center gap-2 ${player.connected ? '' : 'opacity-50'}`}>
+      <div className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: player.color }} />
+      <span className={isMe ? 'font-medium' : 'text-gray-200'}>{player.name}</span>
+      {isMe && <span className="text-[11px] text-gray-400">(you)</span>}
+      {player.bot && <span className="text-[11px] text-gray-400" title="Played by the server">(bot)</span>}
+      {!player.connected && <span className="text-[11px] text-gray-400">reconnecting…</span>}
+      {canFollow && (
+        <button
+          className={`ml-auto transition-colors ${following ? 'text-cyan-300' : 'text-gray-500 hover:text-white'}`}
+          onClick={() => setFollowPlayer(following ? null : player.id)}
+          title={following ? 'Free camera' : `Follow ${player.name}`}
+        >
+          <Crosshair size={12} />
+        </button>
+      )}
+    </li>
+  );
+}
+
+function PlayerList() {
+  const players = useGameStore((state) => state.players);
+  const myId = useGameStore((state) => state.myId);
+  const myName = useGameStore((state) => state.myName);
+  const myColor = useGameStore((state) => state.myColor);
+  const myTeamId = useGameStore((state) => state.myTeamId);
+  const mode = useGameStore((state) => state.mode);
+  const teams = useGameStore((state) => state.teams);
+  const matchPhase = useGameStore((state) => state.match?.phase);
+  const switchTeam = useGameStore((state) => state.switchTeam);
+  const spectating = useGameStore((state) => state.spectating);
+  const spectatorCount = useGameStore((state) => state.spectatorCount);
+
+  const me: Player | null = myId && myName && myColor && myTeamId
+    ? { id: myId, name: myName, color: myColor, teamId: myTeamId, position: null, connected: true }
+    : null;
+  const everyone = [...(me ? [me] : []), ...Object.values(players).sort((a, b) => a.name.localeCompare(b.name))];
+  const playerCount = everyone.filter((p) => p.connected).length;
+
+  return (
+    <div className="min-w-44 bg-white/10 backdrop-blur-md px-4 py-3 rounded-2xl border border-white/10 shadow-lg space-y-2">
+      <div className="flex items-center gap-2">
+        <Users size={16} className="text-cyan-400" />
+        <span className="text-sm font-medium">{playerCount} {playerCount === 1 ? 'Player' : 'Players'}</span>
+        {spectatorCount > 0 && (
+          <span className="ml-auto flex items-center gap-1 text-[11px] text-gray-400" title="Spectators">
+            <Eye size={12} />
+            {spectatorCount}
+          </span>
+        )}
+      </div>
+      {mode === 'teams' ? (
+        teams.map((team) => (
+          <div key={team.id} className="space-y-1">
+            <div className="flex items-center justify-between gap-3 text-[11px] uppercase tracking-wider" style={{ color: team.color }}>
+              <span>{team.name}</span>
+              {matchPhase === 'lobby' && !spectating && team.id !== myTeamId && (
+                <button className="text-gray-300 hover:text-white underline" onClick={() => switchTeam(team.id)}>
+                  Join
+                </button>
+              )}
+            </div>
+            <ul className="space-y-1 text-sm">
+              {everyone.filter((p) => p.teamId === team.id).map((player) => (
+                <PlayerRow key={player.id} player={player} isMe={player.id === myId} canFollow={spectating} />
+              ))}
+            </ul>
+          </div>
+        ))
+      ) : (
+        <ul className="space-y-1 text-sm">
+          {everyone.map((player) => (
+            <PlayerRow key={player.id} player={player} isMe={player.id === myId} canFollow={spectating} />
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
 export default function App() {
   const connect = useGameStore((state) => state.connect);
   const disconnect = useGameStore((state) => state.disconnect);
-  const players = useGameStore((state) => state.players);
+  const roomCode = useGameStore((state) => state.roomCode);
   const myColor = useGameStore((state) => state.myColor);
   const myEnergy = useGameStore((state) => state.myEnergy);
   const myMaxEnergy = useGameStore((state) => state.myMaxEnergy);
   const abilityConfig = useGameStore((state) => state.abilityConfig);
+  const spectating = useGameStore((state) => state.spectating);
+  const setSpectating = useGameStore((state) => state.setSpectating);
   const getAbilityRemainingCooldownMs = useGameStore((state) => state.getAbilityRemainingCooldownMs);
+  const serverTimeOffset = useGameStore((state) => state.serverTimeOffset);
 
   const [now, setNow] = useState(Date.now());
+  const [joined, setJoined] = useState(false);
+  const replayMatchId = useMemo(readReplayMatchId, []);
 
+  // `?spectate=1` (e.g. for a stream overlay) skips the join screen and watches straight away
   useEffect(() => {
-    connect();
+    if (new URLSearchParams(window.location.search).get('spectate') === '1') {
+      setSpectating(true);
+      setJoined(true);
+    }
+  }, [setSpectating]);
+
+  useEffect(() => {
+    if (!joined || replayMatchId !== null) {
+      return;
+    }
+    connect(new URLSearchParams(window.location.search).get('room'));
     return () => {
       disconnect();
     };
-  }, [connect, disconnect]);
+  }, [joined, replayMatchId, connect, disconnect]);
+
+  // Keep the address bar pointing at the current room so it can be shared as-is
+  useEffect(() => {
+    if (!roomCode || replayMatchId !== null) {
+      return;
+    }
+    const url = new URL(window.location.href);
+    if (roomCode === DEFAULT_ROOM_CODE) {
+      url.searchParams.delete('room');
+    } else {
+      url.searchParams.set('room', roomCode);
+    }
+    window.history.replaceState(null, '', url.toString());
+  }, [roomCode, replayMatchId]);
+
+  useEffect(() => startAudioDirector(), []);
 
   useEffect(() => {
     const t = window.setInterval(() => setNow(Date.now()), 100);
     return () => window.clearInterval(t);
   }, []);
 
-  const playerCount = Object.keys(players).length + 1;
   const energyPercent = useMemo(() => {
     if (myMaxEnergy <= 0) {
       return 0;
@@ -77,12 +326,16 @@ export default function App() {
     return Math.max(0, Math.min(100, (myEnergy / myMaxEnergy) * 100));
   }, [myEnergy, myMaxEnergy]);
 
-  const attractorCooldown = getAbilityRemainingCooldownMs('attractor', now);
-  const repulsorCooldown = getAbilityRemainingCooldownMs('repulsor', now);
-
   return (
     <div className="relative w-screen h-screen overflow-hidden bg-black text-white font-sans">
-      <CosmicCanvas />
+      <CosmicCanvas interactive={replayMatchId === null && !spectating} />
+      <MatchOverlay />
+      <Minimap />
+      {replayMatchId === null && <Toasts />}
+      {replayMatchId === null && joined && <ChatPanel />}
+      {replayMatchId !== null
+        ? <ReplayControls matchId={replayMatchId} />
+        : !joined && <JoinScreen onJoin={() => setJoined(true)} />}
 
       {/* UI Overlay */}
       <div className="absolute top-0 left-0 w-full p-6 pointer-events-none flex justify-between items-start z-10">
@@ -90,58 +343,90 @@ export default function App() {
           <h1 className="text-3xl font-bold tracking-tighter text-transparent bg-clip-text bg-gradient-to-r from-indigo-400 to-cyan-400">
             Territory War
           </h1>
-          <p className="text-sm text-gray-400 max-w-xs leading-relaxed">
-            Move cursor to spawn particles.<br/>
-            Direct particles into territories to capture them.<br/>
-            <span className="text-white font-medium">Left click</span> to place an attractor.<br/>
-            <span className="text-white font-medium">Spacebar</span> to place a repulsor.
-          </p>
-
-          {myColor && (
-            <div className="flex items-center gap-2 mt-2">
-              <div className="w-3 h-3 rounded-full shadow-[0_0_10px_rgba(255,255,255,0.5)]" style={{ backgroundColor: myColor }} />
-              <span className="text-xs text-gray-400 uppercase tracking-wider">Your Color</span>
+          {spectating && (
+            <div className="flex items-center gap-2 text-xs text-gray-400">
+              <Eye size={14} className="text-cyan-400" />
+              <span>
+                <span className="text-white font-medium">Spectating</span> · drag to orbit, right-drag to pan, scroll to zoom
+              </span>
             </div>
           )}
+          {replayMatchId === null && !spectating && (
+            <>
+              <p className="text-sm text-gray-400 max-w-xs leading-relaxed">
+                Move cursor to spawn particles.<br/>
+                Direct particles into territories to capture them.
+                {ABILITY_TYPES.map((type) => (
+                  <React.Fragment key={type}>
+                    <br/>
+                    <span className="text-white font-medium">{ABILITIES[type].binding.label}</span> to {ABILITIES[type].hint}.
+                  </React.Fragment>
+                ))}
+                <br/>
+                <span className="text-white font-medium">Alt+click</span> to ping "attack here" (add Shift for "defend").
+                <br/>
+                <span className="text-white font-medium">Enter</span> to chat.
+              </p>
 
-          <div className="pointer-events-auto mt-2 max-w-sm rounded-xl border border-white/15 bg-black/45 backdrop-blur-md p-3 space-y-3">
-            <div>
-              <div className="flex items-center justify-between text-[11px] uppercase tracking-wider text-gray-300 mb-1">
-                <span>Energy</span>
-                <span>{Math.round(myEnergy)} / {Math.round(myMaxEnergy)}</span>
-              </div>
-              <div className="h-2.5 rounded-full bg-white/10 overflow-hidden">
-                <div
-                  className="h-full bg-gradient-to-r from-cyan-400 to-indigo-500 transition-[width] duration-100"
-                  style={{ width: `${energyPercent}%` }}
-                />
+              {myColor && (
+                <div className="flex items-center gap-2 mt-2">
+                  <div className="w-3 h-3 rounded-full shadow-[0_0_10px_rgba(255,255,255,0.5)]" style={{ backgroundColor: myColor }} />
+                  <span className="text-xs text-gray-400 uppercase tracking-wider">Your Color</span>
+                </div>
+              )}
+
+              <div className="pointer-events-auto mt-2 max-w-sm rounded-xl border border-white/15 bg-black/45 backdrop-blur-md p-3 space-y-3">
+                <div>
+                  <div className="flex items-center justify-between text-[11px] uppercase tracking-wider text-gray-300 mb-1">
+                    <span>Energy</span>
+                    <span>{Math.round(myEnergy)} / {Math.round(myMaxEnergy)}</span>
+                  </div>
+                  <div className="h-2.5 rounded-full bg-white/10 overflow-hidden">
+                    <div
+                      className="h-full bg-gradient-to-r from-cyan-400 to-indigo-500 transition-[width] duration-100"
+                      style={{ width: `${energyPercent}%` }}
+                    />
+                  </div>
+                </div>
+
+                <div className="flex flex-wrap gap-2">
+                  {ABILITY_TYPES.map((type) => {
+                    const cooldownMs = getAbilityRemainingCooldownMs(type, now + serverTimeOffset);
+                    return (
+                      <AbilityChip
+                        key={type}
+                        label={ABILITIES[type].label}
+                        hotkey={ABILITIES[type].binding.label}
+                        cooldownMs={cooldownMs}
+                        totalCooldownMs={abilityConfig[type].cooldownMs}
+                        ready={cooldownMs <= 0}
+                      />
+                    );
+                  })}
+                </div>
               </div>
-            </div>
+            </>
+          )}
 
-            <div className="flex gap-2">
-              <AbilityChip
-                label="Attractor"
-                hotkey="LMB"
-                cooldownMs={attractorCooldown}
-                totalCooldownMs={abilityConfig.attractor.cooldownMs}
-                ready={attractorCooldown <= 0}
-              />
-              <AbilityChip
-                label="Repulsor"
-                hotkey="Space"
-                cooldownMs={repulsorCooldown}
-                totalCooldownMs={abilityConfig.repulsor.cooldownMs}
-                ready={repulsorCooldown <= 0}
-              />
-            </div>
-          </div>
+          <EventFeed />
         </div>
 
         <div className="flex flex-col items-end gap-4 pointer-events-auto">
-          <div className="flex items-center gap-2 bg-white/10 backdrop-blur-md px-4 py-2 rounded-full border border-white/10 shadow-lg">
-            <Users size={16} className="text-cyan-400" />
-            <span className="text-sm font-medium">{playerCount} {playerCount === 1 ? 'Player' : 'Players'}</span>
-          </div>
+          <PlayerList />
+
+          <ScoreboardPanel />
+
+          {replayMatchId === null && (
+            <>
+              <RoomPanel />
+
+              <Leaderboard />
+            </>
+          )}
+
+          <SettingsPanel />
+
+          <AudioPanel />
         </div>
       </div>
     </div>
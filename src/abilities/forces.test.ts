@@ -0,0 +1,47 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import * as THREE from 'three';
+import { describe, expect, it } from 'vitest';
+import { reflect, type ForceParticle, type ForceSource } from './forces';
+
+// A wall along the x axis, so `y` is the distance from it
+const WALL: ForceSource = { position: new THREE.Vector3(0, 0, 0), angle: 0, radius: 5 };
+const FRAME = 1 / 60;
+
+function particle(y: number, vy: number): ForceParticle {
+  return { position: new THREE.Vector3(0, y, 0), velocity: new THREE.Vector3(0, vy, 0), baseColor: new THREE.Color() };
+}
+
+describe('reflect', () => {
+  it('bounces a particle that would cross the wall this frame', () => {
+    const p = particle(0.5, -60);
+    reflect(p, WALL, FRAME);
+    expect(p.velocity.y).toBeCloseTo(60);
+  });
+
+  it('bounces a particle heading into the band', () => {
+    const p = particle(0.3, -12);
+    reflect(p, WALL, FRAME);
+    expect(p.velocity.y).toBeCloseTo(12);
+  });
+
+  it('leaves a particle moving out of the band alone', () => {
+    const p = particle(0.05, 1);
+    for (let frame = 0; frame < 30; frame++) {
+      reflect(p, WALL, FRAME);
+      expect(p.velocity.y).toBe(1);
+      p.position.addScaledVector(p.velocity, FRAME);
+    }
+    expect(p.position.y).toBeCloseTo(0.55);
+  });
+
+  it('ignores particles past the ends of the wall', () => {
+    const p = particle(0.5, -60);
+    p.position.x = 6;
+    reflect(p, WALL, FRAME);
+    expect(p.velocity.y).toBe(-60);
+  });
+});
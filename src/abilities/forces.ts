@@ -0,0 +1,109 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import * as THREE from 'three';
+import type { AbilityType } from '../shared/protocol';
+
+export interface ForceParticle {
+  position: THREE.Vector3;
+  velocity: THREE.Vector3;
+  baseColor: THREE.Color;
+}
+
+export interface ForceSource {
+  position: THREE.Vector3;
+  angle: number;
+  radius: number;
+}
+
+// Nudges one particle for one frame; `delta` is the frame time in seconds
+export type ParticleForce = (particle: ForceParticle, source: ForceSource, delta: number) => void;
+
+export interface ParticleForceDefinition {
+  apply: ParticleForce;
+  // Applied a single time, on the first frame the force field is seen, instead of every frame
+  once?: boolean;
+}
+
+const WHITE = new THREE.Color('#ffffff');
+const BARRIER_THICKNESS = 0.15;
+
+const offset = new THREE.Vector3();
+
+// Unit vector from the particle towards the source, and their squared distance
+function towards(particle: ForceParticle, source: ForceSource) {
+  offset.subVectors(source.position, particle.position);
+  const distSq = offset.lengthSq();
+  return { dir: offset.normalize(), distSq };
+}
+
+export const attract: ParticleForce = (p, source, delta) => {
+  const { dir, distSq } = towards(p, source);
+  // Avoid division by zero and extreme forces
+  if (distSq > 0.1 && distSq < source.radius * source.radius) {
+    p.velocity.addScaledVector(dir, (100.0 / distSq) * delta);
+    // Tint particle if close to attractor
+    if (distSq < 10) {
+      p.baseColor.lerp(WHITE, 0.05); // permanently tint a bit
+    }
+  }
+};
+
+export const repel: ParticleForce = (p, source, delta) => {
+  const { dir, distSq } = towards(p, source);
+  if (distSq > 0.1 && distSq < source.radius * source.radius) {
+    p.velocity.addScaledVector(dir, -(100.0 / distSq) * delta);
+  }
+};
+
+// Mostly sideways, with a little pull inwards so particles circle the center instead of flying off
+export const swirl: ParticleForce = (p, source, delta) => {
+  const { dir, distSq } = towards(p, source);
+  if (distSq > 0.1 && distSq < source.radius * source.radius) {
+    const strength = 40 / (Math.sqrt(distSq) + 1);
+    p.velocity.x += (-dir.y * strength + dir.x * strength * 0.3) * delta;
+    p.velocity.y += (dir.x * strength + dir.y * strength * 0.3) * delta;
+  }
+};
+
+// A wall segment through the source along `angle`: particles about to cross it bounce back
+export const reflect: ParticleForce = (p, source, delta) => {
+  const tx = Math.cos(source.angle);
+  const ty = Math.sin(source.angle);
+  const dx = p.position.x - source.position.x;
+  const dy = p.position.y - source.position.y;
+  const along = dx * tx + dy * ty;
+  if (Math.abs(along) > source.radius) {
+    return;
+  }
+  // Signed distance from the wall now and after this frame's move
+  const side = dx * -ty + dy * tx;
+  const speed = p.velocity.x * -ty + p.velocity.y * tx;
+  const next = side + speed * delta;
+  // Only particles heading for the wall: one already moving away is left alone, or it would flip
+  // back every frame and stick inside the band
+  const approaching = speed * side < 0;
+  if (approaching && (Math.sign(side) !== Math.sign(next) || Math.abs(next) < BARRIER_THICKNESS)) {
+    p.velocity.x -= 2 * speed * -ty;
+    p.velocity.y -= 2 * speed * tx;
+  }
+};
+
+// Applied once: a kick outwards, strongest at the center
+export const blast: ParticleForce = (p, source) => {
+  const { dir, distSq } = towards(p, source);
+  if (distSq < source.radius * source.radius) {
+    p.velocity.addScaledVector(dir, -30 * (1 - Math.sqrt(distSq) / source.radius));
+  }
+};
+
+// Kept apart from the rest of the registry (and its React visuals) so the particle worker can load it
+export const PARTICLE_FORCES: Record<AbilityType, ParticleForceDefinition> = {
+  attractor: { apply: attract },
+  repulsor: { apply: repel },
+  vortex: { apply: swirl },
+  barrier: { apply: reflect },
+  pulse: { apply: blast, once: true }
+};
@@ -0,0 +1,73 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type React from 'react';
+import { ABILITY_TYPES, type AbilityType } from '../shared/protocol';
+import { PARTICLE_FORCES, type ParticleForceDefinition } from './forces';
+import { Attractor, Barrier, Pulse, Repulsor, Vortex, type ForceVisualProps } from './visuals';
+
+export { Fizzle } from './visuals';
+
+export type { ForceParticle, ForceSource, ParticleForce, ParticleForceDefinition } from './forces';
+export type { ForceVisualProps } from './visuals';
+
+export interface AbilityBinding {
+  code: string; // KeyboardEvent.code, or 'Mouse0' for the left mouse button
+  label: string;
+}
+
+export interface AbilityDefinition {
+  label: string;
+  hint: string; // finishes "<binding> to …" in the how-to-play text
+  binding: AbilityBinding;
+  force: ParticleForceDefinition; // run by the particle worker
+  Visual: React.ComponentType<ForceVisualProps>;
+}
+
+/**
+ * The client-side half of the ability registry; costs, cooldowns, lifetimes and radii are
+ * `ABILITY_CONFIG` in the shared protocol. A new ability needs an entry in both.
+ */
+export const ABILITIES: Record<AbilityType, AbilityDefinition> = {
+  attractor: {
+    label: 'Attractor',
+    hint: 'place an attractor',
+    binding: { code: 'Mouse0', label: 'LMB' },
+    force: PARTICLE_FORCES.attractor,
+    Visual: Attractor
+  },
+  repulsor: {
+    label: 'Repulsor',
+    hint: 'place a repulsor',
+    binding: { code: 'Space', label: 'Space' },
+    force: PARTICLE_FORCES.repulsor,
+    Visual: Repulsor
+  },
+  vortex: {
+    label: 'Vortex',
+    hint: 'swirl particles around a point',
+    binding: { code: 'KeyQ', label: 'Q' },
+    force: PARTICLE_FORCES.vortex,
+    Visual: Vortex
+  },
+  barrier: {
+    label: 'Barrier',
+    hint: 'raise a wall along your cursor\'s path',
+    binding: { code: 'KeyE', label: 'E' },
+    force: PARTICLE_FORCES.barrier,
+    Visual: Barrier
+  },
+  pulse: {
+    label: 'Pulse',
+    hint: 'blast particles outward',
+    binding: { code: 'KeyR', label: 'R' },
+    force: PARTICLE_FORCES.pulse,
+    Visual: Pulse
+  }
+};
+
+export function findAbilityByBinding(code: string): AbilityType | null {
+  return ABILITY_TYPES.find((type) => ABILITIES[type].binding.code === code) ?? null;
+}
@@ -0,0 +1,200 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+
+export interface ForceVisualProps {
+  position: THREE.Vector3;
+  color: string;
+  angle: number;
+  radius: number;
+  lifetimeMs: number;
+}
+
+const FADE_MS = 500;
+
+// 0..1: grows in over the first FADE_MS and shrinks away over the last
+function getLifeScale(ageMs: number, lifetimeMs: number) {
+  const fade = Math.min(FADE_MS, lifetimeMs / 2);
+  if (ageMs < fade) {
+    return ageMs / fade;
+  }
+  return Math.max(0, Math.min(1, (lifetimeMs - ageMs) / fade));
+}
+
+export function Attractor({ position, color, lifetimeMs }: ForceVisualProps) {
+  const meshRef = useRef<THREE.Mesh>(null);
+  const mountedAt = useRef(Date.now());
+
+  useFrame((state) => {
+    if (meshRef.current) {
+      const lifeScale = getLifeScale(Date.now() - mountedAt.current, lifetimeMs);
+      const scale = (1 + Math.sin(state.clock.elapsedTime * 5) * 0.1) * lifeScale;
+      meshRef.current.scale.set(scale, scale, scale);
+    }
+  });
+
+  return (
+    <mesh position={position} ref={meshRef}>
+      <sphereGeometry args={[1.2, 32, 32]} />
+      <meshPhysicalMaterial
+        transmission={1}
+        ior={1.5}
+        thickness={2}
+        roughness={0}
+        color={color || "#ffffff"}
+      />
+      {/* Inner core */}
+      <mesh>
+        <sphereGeometry args={[0.2, 32, 32]} />
+        <meshBasicMaterial color={color || "#ffffff"} />
+      </mesh>
+    </mesh>
+  );
+}
+
+export function Repulsor({ position, color, lifetimeMs }: ForceVisualProps) {
+  const groupRef = useRef<THREE.Group>(null);
+  const mountedAt = useRef(Date.now());
+
+  useFrame((state) => {
+    if (groupRef.current) {
+      const lifeScale = getLifeScale(Date.now() - mountedAt.current, lifetimeMs);
+      const time = state.clock.elapsedTime * 0.8; // slower, softer
+      groupRef.current.children.forEach((child, i) => {
+        if (i === 3) {
+          // Inner core
+          child.scale.set(lifeScale, lifeScale, lifeScale);
+          return;
+        }
+        const mesh = child as THREE.Mesh;
+        // Offset each ring's phase
+        const phase = (time + i * 0.33) % 1;
+        // Scale smoothly from 0.2 to 3.5
+        const scale = (0.2 + phase * 3.3) * lifeScale;
+        mesh.scale.set(scale, scale, scale);
+        // Opacity fades in and out smoothly using sine wave
+        const opacity = Math.sin(phase * Math.PI) * 0.4 * lifeScale;
+        (mesh.material as THREE.MeshBasicMaterial).opacity = opacity;
+      });
+    }
+  });
+
+  return (
+    <group position={position} ref={groupRef}>
+      {[0, 1, 2].map((i) => (
+        <mesh key={i}>
+          <ringGeometry args={[0.8, 1.0, 32]} />
+          <meshBasicMaterial color={color || "#ff3333"} side={THREE.DoubleSide} transparent opacity={0} blending={THREE.AdditiveBlending} depthWrite={false} />
+        </mesh>
+      ))}
+      <mesh>
+        <sphereGeometry args={[0.2, 32, 32]} />
+        <meshBasicMaterial color={color || "#ff3333"} />
+      </mesh>
+    </group>
+  );
+}
+
+// Three arcs spinning around the center, tighter arcs faster
+export function Vortex({ position, color, radius, lifetimeMs }: ForceVisualProps) {
+  const groupRef = useRef<THREE.Group>(null);
+  const mountedAt = useRef(Date.now());
+
+  useFrame((_state, delta) => {
+    if (groupRef.current) {
+      const lifeScale = getLifeScale(Date.now() - mountedAt.current, lifetimeMs);
+      groupRef.current.scale.set(lifeScale, lifeScale, lifeScale);
+      groupRef.current.children.forEach((child, i) => {
+        child.rotation.z += delta * (3 - i);
+      });
+    }
+  });
+
+  return (
+    <group position={position} ref={groupRef}>
+      {[0.3, 0.6, 0.9].map((r, i) => (
+        <mesh key={i} rotation={[0, 0, i * 2]}>
+          <ringGeometry args={[radius * r - 0.08, radius * r, 48, 1, 0, Math.PI * 1.2]} />
+          <meshBasicMaterial color={color} side={THREE.DoubleSide} transparent opacity={0.5 - i * 0.12} blending={THREE.AdditiveBlending} depthWrite={false} />
+        </mesh>
+      ))}
+      <mesh>
+        <sphereGeometry args={[0.2, 32, 32]} />
+        <meshBasicMaterial color={color} />
+      </mesh>
+    </group>
+  );
+}
+
+// A glowing wall segment, `radius` either side of the center along `angle`
+export function Barrier({ position, color, angle, radius, lifetimeMs }: ForceVisualProps) {
+  const meshRef = useRef<THREE.Mesh>(null);
+  const mountedAt = useRef(Date.now());
+
+  useFrame((state) => {
+    if (meshRef.current) {
+      const lifeScale = getLifeScale(Date.now() - mountedAt.current, lifetimeMs);
+      meshRef.current.scale.set(lifeScale, 1, 1);
+      const material = meshRef.current.material as THREE.MeshBasicMaterial;
+      material.opacity = (0.6 + Math.sin(state.clock.elapsedTime * 8) * 0.15) * lifeScale;
+    }
+  });
+
+  return (
+    <mesh position={position} rotation={[0, 0, angle]} ref={meshRef}>
+      <boxGeometry args={[radius * 2, 0.15, 0.15]} />
+      <meshBasicMaterial color={color} transparent opacity={0} blending={THREE.AdditiveBlending} depthWrite={false} />
+    </mesh>
+  );
+}
+
+// One shockwave ring racing out to the edge of the blast
+export function Pulse({ position, color, radius, lifetimeMs }: ForceVisualProps) {
+  const meshRef = useRef<THREE.Mesh>(null);
+  const mountedAt = useRef(Date.now());
+
+  useFrame(() => {
+    if (meshRef.current) {
+      const progress = Math.min(1, (Date.now() - mountedAt.current) / lifetimeMs);
+      const scale = Math.max(0.01, progress * radius);
+      meshRef.current.scale.set(scale, scale, scale);
+      (meshRef.current.material as THREE.MeshBasicMaterial).opacity = (1 - progress) * 0.8;
+    }
+  });
+
+  return (
+    <mesh position={position} ref={meshRef}>
+      <ringGeometry args={[0.9, 1.0, 64]} />
+      <meshBasicMaterial color={color} side={THREE.DoubleSide} transparent opacity={0} blending={THREE.AdditiveBlending} depthWrite={false} />
+    </mesh>
+  );
+}
+
+// A placement the server turned down: a broken ring that flickers, collapses and goes out
+export function Fizzle({ position, color, durationMs }: { position: THREE.Vector3; color: string; durationMs: number }) {
+  const meshRef = useRef<THREE.Mesh>(null);
+  const mountedAt = useRef(Date.now());
+
+  useFrame((state) => {
+    if (meshRef.current) {
+      const progress = Math.min(1, (Date.now() - mountedAt.current) / durationMs);
+      const scale = Math.max(0.01, 1.2 * (1 - progress * progress));
+      meshRef.current.scale.set(scale, scale, scale);
+      meshRef.current.rotation.z = progress * Math.PI;
+      const flicker = 0.6 + Math.sin(state.clock.elapsedTime * 60) * 0.4;
+      (meshRef.current.material as THREE.MeshBasicMaterial).opacity = (1 - progress) * flicker;
+    }
+  });
+
+  return (
+    <mesh position={position} ref={meshRef}>
+      <ringGeometry args={[0.7, 0.9, 24, 1, 0, Math.PI * 1.5]} />
+      <meshBasicMaterial color={color} side={THREE.DoubleSide} transparent opacity={0} blending={THREE.AdditiveBlending} depthWrite={false} />
+    </mesh>
+  );
+}
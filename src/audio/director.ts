@@ -0,0 +1,109 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { useAudioStore } from '../store/useAudioStore';
+import { useGameStore } from '../store/useGameStore';
+import { useToastStore } from '../store/useToastStore';
+import { audio } from './engine';
+import { ABILITY_SOUNDS, captureSound, distantCaptureSound, lossSound, pingSound, rejectionSound } from './sounds';
+
+// More new forces than this in one update is a snapshot (joining, seeking a replay), not gameplay
+const MAX_FORCE_SOUNDS_PER_UPDATE = 3;
+// Holding a key against a cooldown shouldn't buzz
+const REJECTION_SOUND_INTERVAL_MS = 150;
+// The capture tone keeps going this long after the last reported hit
+const ATTACK_TONE_HOLD_MS = 600;
+const ATTACK_TONE_UPDATE_MS = 100;
+
+/**
+ * Turns store changes into sound: a positional cue for every force placed (mine as soon as the
+ * ghost appears, not again when it's confirmed), stingers when territories change hands, a chirp
+ * where pings land, a blip for rejected actions and the rising capture tone. Returns a function that stops it.
+ */
+export function startAudioDirector() {
+  audio.applySettings(useAudioStore.getState());
+  const removeUnlock = audio.installUnlock();
+  const unsubscribeSettings = useAudioStore.subscribe((settings) => audio.applySettings(settings));
+
+  const unsubscribeGame = useGameStore.subscribe((state, previous) => {
+    // A new `init` replaces everything at once; there's nothing to hear in that
+    if (state.myId !== previous.myId || state.roomCode !== previous.roomCode) {
+      return;
+    }
+
+    if (state.forceFields !== previous.forceFields || state.pendingForces !== previous.pendingForces) {
+      const placed = [
+        ...Object.values(state.forceFields).filter(
+          (force) => !previous.forceFields[force.id] && !state.forceVisualKeys[force.id]
+        ),
+        ...Object.values(state.pendingForces)
+          .filter(({ force }) => !previous.pendingForces[force.id])
+          .map(({ force }) => force)
+      ];
+      if (placed.length <= MAX_FORCE_SOUNDS_PER_UPDATE) {
+        placed.forEach((force) => audio.play(ABILITY_SOUNDS[force.type], force.position));
+      }
+    }
+
+    if (state.pings !== previous.pings) {
+      Object.values(state.pings)
+        .filter((ping) => !previous.pings[ping.id])
+        .forEach((ping) => audio.play(pingSound, ping.position));
+    }
+
+    if (state.captureBursts !== previous.captureBursts) {
+      for (const [territoryId, burst] of Object.entries(state.captureBursts)) {
+        if (previous.captureBursts[territoryId] === burst) {
+          continue;
+        }
+        if (state.myTeamId !== null && burst.teamId === state.myTeamId) {
+          audio.play(captureSound);
+        } else if (state.myTeamId !== null && burst.previousTeamId === state.myTeamId) {
+          audio.play(lossSound);
+        } else {
+          audio.play(distantCaptureSound, state.territories[territoryId]?.position);
+        }
+      }
+    }
+  });
+
+  let lastRejectionSoundAt = 0;
+  const unsubscribeToasts = useToastStore.subscribe((state, previous) => {
+    const rejected = state.toasts.some((toast) => {
+      const before = previous.toasts.find((t) => t.id === toast.id);
+      return toast.kind === 'warning' && (!before || before.count !== toast.count);
+    });
+    const now = Date.now();
+    if (rejected && now - lastRejectionSoundAt >= REJECTION_SOUND_INTERVAL_MS) {
+      lastRejectionSoundAt = now;
+      audio.play(rejectionSound);
+    }
+  });
+
+  // The capture tone follows the attacked territory's remaining hold as syncs come in
+  const attackToneInterval = setInterval(() => {
+    const { attackedTerritory, territories, myTeamId } = useGameStore.getState();
+    const territory = attackedTerritory ? territories[attackedTerritory.id] : undefined;
+    if (
+      !attackedTerritory ||
+      !territory ||
+      territory.controllingTeamId === myTeamId ||
+      Date.now() - attackedTerritory.at > ATTACK_TONE_HOLD_MS
+    ) {
+      audio.setAttackProgress(null);
+      return;
+    }
+    audio.setAttackProgress(1 - territory.points / 100);
+  }, ATTACK_TONE_UPDATE_MS);
+
+  return () => {
+    removeUnlock();
+    unsubscribeSettings();
+    unsubscribeGame();
+    unsubscribeToasts();
+    clearInterval(attackToneInterval);
+    audio.setAttackProgress(null);
+  };
+}
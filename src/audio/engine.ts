@@ -0,0 +1,186 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { Vector3 } from '../shared/protocol';
+import type { AudioSettings } from '../store/useAudioStore';
+import { getNoiseBuffer, type Sound } from './sounds';
+
+// Distance (in world units) at which positional sounds start to fall off
+const PANNER_REF_DISTANCE = 12;
+// Ambient bed loudness at an empty board and at a full particle budget
+const AMBIENT_MIN_GAIN = 0.15;
+const AMBIENT_MAX_GAIN = 0.6;
+// Capture tone: two octaves up from here as the territory nears capture
+const ATTACK_TONE_BASE_HZ = 220;
+const ATTACK_TONE_GAIN = 0.06;
+// Time constant for gain and pitch changes, so nothing clicks
+const SMOOTHING_SECONDS = 0.08;
+
+interface Voices {
+  master: GainNode;
+  sfx: GainNode;
+  music: GainNode;
+  ambient: GainNode;
+  attackTone: OscillatorNode;
+  attackGain: GainNode;
+}
+
+/**
+ * The game's sound: master, SFX and music buses, positional one-shots, the ambient bed and the
+ * capture tone. Browsers only allow audio to start from a user gesture, so nothing exists until
+ * the first click or key press after `installUnlock`; until then every call is a no-op.
+ */
+export class AudioEngine {
+  private context: AudioContext | null = null;
+  private voices: Voices | null = null;
+  private settings: AudioSettings | null = null;
+  private density = 0;
+
+  // Returns a cleanup that removes the listeners if the gesture never came
+  installUnlock() {
+    const unlock = () => {
+      this.start();
+      remove();
+    };
+    const remove = () => {
+      window.removeEventListener('pointerdown', unlock);
+      window.removeEventListener('keydown', unlock);
+    };
+    window.addEventListener('pointerdown', unlock);
+    window.addEventListener('keydown', unlock);
+    return remove;
+  }
+
+  private start() {
+    if (this.context) {
+      void this.context.resume();
+      return;
+    }
+    const context = new AudioContext();
+    const master = new GainNode(context, { gain: 0 });
+    master.connect(context.destination);
+    const sfx = new GainNode(context);
+    sfx.connect(master);
+    const music = new GainNode(context);
+    music.connect(master);
+
+    // Ambient bed: filtered noise over a low, slowly beating drone
+    const ambient = new GainNode(context, { gain: AMBIENT_MIN_GAIN });
+    ambient.connect(music);
+    const wind = new AudioBufferSourceNode(context, { buffer: getNoiseBuffer(context), loop: true });
+    const windFilter = new BiquadFilterNode(context, { type: 'lowpass', frequency: 280, Q: 0.7 });
+    const windGain = new GainNode(context, { gain: 0.25 });
+    wind.connect(windFilter).connect(windGain).connect(ambient);
+    wind.start();
+    for (const frequency of [55, 82.5, 55.4]) {
+      const drone = new OscillatorNode(context, { type: 'sine', frequency });
+      const droneGain = new GainNode(context, { gain: 0.12 });
+      drone.connect(droneGain).connect(ambient);
+      drone.start();
+    }
+
+    const attackGain = new GainNode(context, { gain: 0 });
+    attackGain.connect(sfx);
+    const attackTone = new OscillatorNode(context, { type: 'triangle', frequency: ATTACK_TONE_BASE_HZ });
+    attackTone.connect(attackGain);
+    attackTone.start();
+
+    this.context = context;
+    this.voices = { master, sfx, music, ambient, attackTone, attackGain };
+    if (this.settings) {
+      this.applySettings(this.settings);
+    }
+    this.setParticleDensity(this.density);
+  }
+
+  applySettings(settings: AudioSettings) {
+    this.settings = settings;
+    if (!this.context || !this.voices) {
+      return;
+    }
+    const now = this.context.currentTime;
+    this.voices.master.gain.setTargetAtTime(settings.muted ? 0 : settings.master, now, SMOOTHING_SECONDS);
+    this.voices.sfx.gain.setTargetAtTime(settings.sfx, now, SMOOTHING_SECONDS);
+    this.voices.music.gain.setTargetAtTime(settings.music, now, SMOOTHING_SECONDS);
+  }
+
+  // Plays `sound` now, from `position` in the world if given (otherwise straight into the ears)
+  play(sound: Sound, position?: Vector3) {
+    if (!this.context || !this.voices || this.context.state !== 'running') {
+      return;
+    }
+    if (!position) {
+      sound(this.context, this.voices.sfx, this.context.currentTime);
+      return;
+    }
+    const panner = new PannerNode(this.context, {
+      panningModel: 'equalpower',
+      distanceModel: 'inverse',
+      refDistance: PANNER_REF_DISTANCE,
+      positionX: position.x,
+      positionY: position.y,
+      positionZ: position.z
+    });
+    panner.connect(this.voices.sfx);
+    // Each sound gets its own panner; unplug it once the last of its sources has ended
+    const sources = sound(this.context, panner, this.context.currentTime);
+    let playing = sources.length;
+    for (const source of sources) {
+      source.onended = () => {
+        if (--playing === 0) {
+          panner.disconnect();
+        }
+      };
+    }
+  }
+
+  setListener(position: Vector3, forward: Vector3, up: Vector3) {
+    if (!this.context) {
+      return;
+    }
+    const { listener } = this.context;
+    if (listener.positionX) {
+      listener.positionX.value = position.x;
+      listener.positionY.value = position.y;
+      listener.positionZ.value = position.z;
+      listener.forwardX.value = forward.x;
+      listener.forwardY.value = forward.y;
+      listener.forwardZ.value = forward.z;
+      listener.upX.value = up.x;
+      listener.upY.value = up.y;
+      listener.upZ.value = up.z;
+    } else {
+      // Older Safari
+      listener.setPosition(position.x, position.y, position.z);
+      listener.setOrientation(forward.x, forward.y, forward.z, up.x, up.y, up.z);
+    }
+  }
+
+  // 0..1: how full the particle budget is; the ambient bed swells with it
+  setParticleDensity(density: number) {
+    this.density = Math.max(0, Math.min(1, density));
+    if (this.context && this.voices) {
+      const gain = AMBIENT_MIN_GAIN + (AMBIENT_MAX_GAIN - AMBIENT_MIN_GAIN) * this.density;
+      this.voices.ambient.gain.setTargetAtTime(gain, this.context.currentTime, SMOOTHING_SECONDS * 4);
+    }
+  }
+
+  // 0..1 while my particles are taking a territory (1 = about to flip); null when they aren't
+  setAttackProgress(progress: number | null) {
+    if (!this.context || !this.voices) {
+      return;
+    }
+    const now = this.context.currentTime;
+    if (progress === null) {
+      this.voices.attackGain.gain.setTargetAtTime(0, now, SMOOTHING_SECONDS);
+      return;
+    }
+    const clamped = Math.max(0, Math.min(1, progress));
+    this.voices.attackTone.frequency.setTargetAtTime(ATTACK_TONE_BASE_HZ * 2 ** (2 * clamped), now, SMOOTHING_SECONDS);
+    this.voices.attackGain.gain.setTargetAtTime(ATTACK_TONE_GAIN * (0.5 + clamped / 2), now, SMOOTHING_SECONDS);
+  }
+}
+
+export const audio = new AudioEngine();
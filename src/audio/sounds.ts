@@ -0,0 +1,136 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { AbilityType } from '../shared/protocol';
+
+// Everything is synthesized: a sound schedules its nodes at `at` into `output` and lets them stop,
+// returning the sources so the caller can tell when the last one has ended
+export type Sound = (context: AudioContext, output: AudioNode, at: number) => AudioScheduledSourceNode[];
+
+interface ToneOptions {
+  type: OscillatorType;
+  from: number; // Hz
+  to?: number; // glides here over the duration
+  duration: number; // seconds
+  gain: number;
+  attack?: number;
+}
+
+function tone(context: AudioContext, output: AudioNode, at: number, options: ToneOptions) {
+  const { type, from, to = from, duration, gain, attack = 0.01 } = options;
+  const oscillator = new OscillatorNode(context, { type, frequency: from });
+  oscillator.frequency.setValueAtTime(from, at);
+  oscillator.frequency.exponentialRampToValueAtTime(to, at + duration);
+  const envelope = new GainNode(context, { gain: 0 });
+  envelope.gain.setValueAtTime(0, at);
+  envelope.gain.linearRampToValueAtTime(gain, at + attack);
+  envelope.gain.exponentialRampToValueAtTime(0.0001, at + duration);
+  oscillator.connect(envelope).connect(output);
+  oscillator.start(at);
+  oscillator.stop(at + duration + 0.05);
+  return oscillator;
+}
+
+// One second of white noise per context, shared by every noisy sound
+const noiseBuffers = new WeakMap<BaseAudioContext, AudioBuffer>();
+
+export function getNoiseBuffer(context: BaseAudioContext) {
+  let buffer = noiseBuffers.get(context);
+  if (!buffer) {
+    buffer = context.createBuffer(1, context.sampleRate, context.sampleRate);
+    const data = buffer.getChannelData(0);
+    for (let i = 0; i < data.length; i++) {
+      data[i] = Math.random() * 2 - 1;
+    }
+    noiseBuffers.set(context, buffer);
+  }
+  return buffer;
+}
+
+function noise(context: AudioContext, output: AudioNode, at: number, duration: number, gain: number, filterFrom: number, filterTo: number) {
+  const source = new AudioBufferSourceNode(context, { buffer: getNoiseBuffer(context), loop: true });
+  const filter = new BiquadFilterNode(context, { type: 'lowpass', frequency: filterFrom, Q: 1 });
+  filter.frequency.setValueAtTime(filterFrom, at);
+  filter.frequency.exponentialRampToValueAtTime(filterTo, at + duration);
+  const envelope = new GainNode(context, { gain: 0 });
+  envelope.gain.setValueAtTime(0, at);
+  envelope.gain.linearRampToValueAtTime(gain, at + 0.01);
+  envelope.gain.exponentialRampToValueAtTime(0.0001, at + duration);
+  source.connect(filter).connect(envelope).connect(output);
+  source.start(at);
+  source.stop(at + duration + 0.05);
+  return source;
+}
+
+export const ABILITY_SOUNDS: Record<AbilityType, Sound> = {
+  // Falling, inward
+  attractor: (context, output, at) => {
+    return [
+      tone(context, output, at, { type: 'sine', from: 660, to: 220, duration: 0.4, gain: 0.35 }),
+      tone(context, output, at + 0.05, { type: 'sine', from: 990, to: 330, duration: 0.3, gain: 0.12 })
+    ];
+  },
+  // Rising, outward
+  repulsor: (context, output, at) => {
+    return [
+      tone(context, output, at, { type: 'triangle', from: 220, to: 700, duration: 0.35, gain: 0.3 }),
+      noise(context, output, at, 0.25, 0.1, 3000, 600)
+    ];
+  },
+  // A warble that spins up and back down
+  vortex: (context, output, at) => {
+    return [
+      tone(context, output, at, { type: 'sawtooth', from: 160, to: 240, duration: 0.6, gain: 0.12, attack: 0.1 }),
+      tone(context, output, at, { type: 'sawtooth', from: 163, to: 236, duration: 0.6, gain: 0.12, attack: 0.1 }),
+      noise(context, output, at, 0.6, 0.12, 400, 2500)
+    ];
+  },
+  // A hard, metallic clang
+  barrier: (context, output, at) => {
+    return [
+      tone(context, output, at, { type: 'square', from: 110, to: 100, duration: 0.3, gain: 0.15 }),
+      tone(context, output, at, { type: 'sine', from: 1760, to: 1700, duration: 0.45, gain: 0.1 })
+    ];
+  },
+  // Thump and blast
+  pulse: (context, output, at) => {
+    return [
+      tone(context, output, at, { type: 'sine', from: 140, to: 40, duration: 0.5, gain: 0.5 }),
+      noise(context, output, at, 0.5, 0.35, 4000, 150)
+    ];
+  }
+};
+
+export const captureSound: Sound = (context, output, at) => {
+  return [523.25, 659.25, 783.99, 1046.5].map((frequency, i) =>
+    tone(context, output, at + i * 0.07, { type: 'triangle', from: frequency, duration: 0.35, gain: 0.25 })
+  );
+};
+
+export const lossSound: Sound = (context, output, at) => {
+  return [392, 311.13, 233.08].map((frequency, i) =>
+    tone(context, output, at + i * 0.11, { type: 'sawtooth', from: frequency, to: frequency * 0.97, duration: 0.4, gain: 0.12 })
+  );
+};
+
+// Someone else's capture: quieter, and placed at the territory
+export const distantCaptureSound: Sound = (context, output, at) => {
+  return [
+    tone(context, output, at, { type: 'triangle', from: 440, duration: 0.25, gain: 0.15 }),
+    tone(context, output, at + 0.08, { type: 'triangle', from: 587.33, duration: 0.3, gain: 0.15 })
+  ];
+};
+
+// Two quick chirps, like a radio blip
+export const pingSound: Sound = (context, output, at) => {
+  return [
+    tone(context, output, at, { type: 'sine', from: 1318.5, duration: 0.12, gain: 0.2 }),
+    tone(context, output, at + 0.1, { type: 'sine', from: 1760, duration: 0.18, gain: 0.2 })
+  ];
+};
+
+export const rejectionSound: Sound = (context, output, at) => {
+  return [tone(context, output, at, { type: 'square', from: 180, to: 150, duration: 0.08, gain: 0.08, attack: 0.003 })];
+};
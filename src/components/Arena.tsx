@@ -0,0 +1,57 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { Line, Sphere } from '@react-three/drei';
+import { useGameStore } from '../store/useGameStore';
+
+const BOUNDS_COLOR = '#4b5563';
+const SPAWN_ZONE_COLOR = '#9ca3af';
+
+// The current map's arena: its edge, the obstacles particles bounce off, and the spawn zones
+// (in the matching team's color in team mode)
+export function Arena() {
+  const map = useGameStore((state) => state.map);
+  const teams = useGameStore((state) => state.teams);
+
+  if (!map) {
+    return null;
+  }
+
+  const { minX, maxX, minY, maxY } = map.bounds;
+
+  return (
+    <group>
+      <Line
+        points={[[minX, minY, 0], [maxX, minY, 0], [maxX, maxY, 0], [minX, maxY, 0], [minX, minY, 0]]}
+        color={BOUNDS_COLOR}
+        lineWidth={1}
+        dashed
+        dashSize={0.6}
+        gapSize={0.4}
+      />
+
+      {map.obstacles.map((obstacle, i) => (
+        <Sphere
+          key={`obstacle-${i}`}
+          args={[obstacle.radius, 32, 32]}
+          position={[obstacle.position.x, obstacle.position.y, obstacle.position.z]}
+        >
+          <meshStandardMaterial color="#0b0b14" roughness={0.9} emissive="#1e1b4b" emissiveIntensity={0.3} />
+        </Sphere>
+      ))}
+
+      {map.spawnZones.map((zone, i) => {
+        const color = teams[i]?.color ?? SPAWN_ZONE_COLOR;
+        return (
+          <mesh key={`spawn-${i}`} position={[zone.position.x, zone.position.y, zone.position.z]}>
+            <ringGeometry args={[zone.radius * 0.9, zone.radius, 64]} />
+            <meshBasicMaterial color={color} transparent opacity={0.25} depthWrite={false} />
+          </mesh>
+        );
+      })}
+    </group>
+  );
+}
@@ -0,0 +1,63 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import { ChevronDown, ChevronUp, Volume2, VolumeX } from 'lucide-react';
+import { useAudioStore } from '../store/useAudioStore';
+
+const CHANNELS: { key: 'master' | 'sfx' | 'music'; label: string }[] = [
+  { key: 'master', label: 'Master' },
+  { key: 'sfx', label: 'Effects' },
+  { key: 'music', label: 'Ambience' }
+];
+
+// Volume and mute, remembered in localStorage. Sound starts with the first click or key press.
+export function AudioPanel() {
+  const settings = useAudioStore();
+  const [open, setOpen] = useState(false);
+  const Icon = settings.muted ? VolumeX : Volume2;
+
+  return (
+    <div className="w-64 bg-white/10 backdrop-blur-md rounded-2xl border border-white/10 shadow-lg">
+      <div className="flex items-center gap-2 px-4 py-3">
+        <button
+          className="text-gray-300 hover:text-white"
+          onClick={() => settings.setMuted(!settings.muted)}
+          title={settings.muted ? 'Unmute' : 'Mute'}
+        >
+          <Icon size={16} />
+        </button>
+        <button className="flex-1 flex items-center gap-2" onClick={() => setOpen((o) => !o)}>
+          <span className="text-sm font-medium">Audio</span>
+          {settings.muted && <span className="text-[11px] text-gray-400">Muted</span>}
+          <span className="ml-auto text-gray-400">{open ? <ChevronUp size={14} /> : <ChevronDown size={14} />}</span>
+        </button>
+      </div>
+
+      {open && (
+        <div className="px-4 pb-3 space-y-3 text-xs">
+          {CHANNELS.map((channel) => (
+            <div key={channel.key} className="space-y-0.5">
+              <div className="flex justify-between text-gray-400">
+                <span>{channel.label}</span>
+                <span className="tabular-nums text-gray-200">{Math.round(settings[channel.key] * 100)}%</span>
+              </div>
+              <input
+                type="range"
+                min={0}
+                max={1}
+                step={0.05}
+                value={settings[channel.key]}
+                onChange={(e) => settings.setVolume(channel.key, Number(e.target.value))}
+                disabled={settings.muted}
+                className="w-full accent-cyan-400 disabled:opacity-40"
+              />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
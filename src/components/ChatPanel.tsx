@@ -0,0 +1,144 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useRef, useState } from 'react';
+import { ChevronDown, ChevronUp, MessageSquare, Send } from 'lucide-react';
+import { EMOTES, MAX_CHAT_MESSAGE_LENGTH, normalizeChatText } from '../shared/protocol';
+import { useGameStore, type Emote } from '../store/useGameStore';
+
+export const EMOTE_LABELS: Record<Emote, string> = {
+  hello: 'Hello!',
+  gg: 'GG',
+  thanks: 'Thanks!',
+  oops: 'Oops',
+  taunt: 'Come at me'
+};
+
+/**
+ * Room chat (or team chat, in team games) with the emote buttons underneath. Enter opens it and
+ * focuses the input from anywhere; Escape hands the keyboard back to the game. While collapsed,
+ * a badge counts what came in from others.
+ */
+export function ChatPanel() {
+  const chat = useGameStore((state) => state.chat);
+  const myId = useGameStore((state) => state.myId);
+  const mode = useGameStore((state) => state.mode);
+  const spectating = useGameStore((state) => state.spectating);
+  const sendChat = useGameStore((state) => state.sendChat);
+  const sendEmote = useGameStore((state) => state.sendEmote);
+
+  const [open, setOpen] = useState(true);
+  const [draft, setDraft] = useState('');
+  const [teamOnly, setTeamOnly] = useState(false);
+  const [seenUntil, setSeenUntil] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  const latest = chat.length > 0 ? chat[chat.length - 1].sentAt : 0;
+  const unread = open ? 0 : chat.filter((line) => line.sentAt > seenUntil && line.playerId !== myId).length;
+
+  useEffect(() => {
+    if (open) {
+      setSeenUntil(latest);
+      listRef.current?.scrollTo({ top: listRef.current.scrollHeight });
+    }
+  }, [open, latest]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Enter' && !(e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement)) {
+        e.preventDefault();
+        setOpen(true);
+        // The input only exists once the panel has opened
+        requestAnimationFrame(() => inputRef.current?.focus());
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (normalizeChatText(draft)) {
+      sendChat(draft, teamOnly);
+      setDraft('');
+    }
+    inputRef.current?.blur();
+  };
+
+  return (
+    <div className="absolute bottom-6 left-6 z-10 w-80 bg-white/10 backdrop-blur-md rounded-2xl border border-white/10 shadow-lg">
+      <button className="w-full flex items-center gap-2 px-4 py-3" onClick={() => setOpen((o) => !o)}>
+        <MessageSquare size={16} className="text-cyan-400" />
+        <span className="text-sm font-medium">Chat</span>
+        {unread > 0 && (
+          <span className="rounded-full bg-cyan-500 px-1.5 text-[11px] font-medium tabular-nums text-black">{unread}</span>
+        )}
+        <span className="ml-auto text-gray-400">{open ? <ChevronUp size={14} /> : <ChevronDown size={14} />}</span>
+      </button>
+
+      {open && (
+        <div className="px-4 pb-3 space-y-2">
+          <div ref={listRef} className="max-h-48 overflow-y-auto space-y-1 text-xs text-gray-200">
+            {chat.length === 0 && <p className="text-gray-500">No messages yet. Press Enter to chat.</p>}
+            {chat.map((line) => (
+              <p key={line.id} className="break-words">
+                {line.teamOnly && <span className="text-gray-400">[Team] </span>}
+                <span className="font-medium" style={{ color: line.color }}>
+                  {line.playerId === myId ? 'You' : line.name}
+                </span>
+                : {line.text}
+              </p>
+            ))}
+          </div>
+
+          {spectating ? (
+            <p className="text-[11px] text-gray-500">Spectators can read the chat but not post.</p>
+          ) : (
+            <>
+              <div className="flex flex-wrap gap-1">
+                {EMOTES.map((emote) => (
+                  <button
+                    key={emote}
+                    className="rounded-full border border-white/10 bg-black/40 px-2 py-0.5 text-[11px] text-gray-300 hover:bg-white/10 hover:text-white transition-colors"
+                    onClick={() => sendEmote(emote)}
+                  >
+                    {EMOTE_LABELS[emote]}
+                  </button>
+                ))}
+              </div>
+              <form className="flex items-center gap-1" onSubmit={submit}>
+                {mode === 'teams' && (
+                  <button
+                    type="button"
+                    className={`shrink-0 rounded-md px-2 py-1 text-[11px] uppercase tracking-wider border transition-colors ${
+                      teamOnly ? 'border-cyan-400/50 text-cyan-300' : 'border-white/10 text-gray-400 hover:text-white'
+                    }`}
+                    onClick={() => setTeamOnly((t) => !t)}
+                    title={teamOnly ? 'Only your team sees this' : 'Everyone in the room sees this'}
+                  >
+                    {teamOnly ? 'Team' : 'All'}
+                  </button>
+                )}
+                <input
+                  ref={inputRef}
+                  value={draft}
+                  onChange={(e) => setDraft(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Escape' && inputRef.current?.blur()}
+                  maxLength={MAX_CHAT_MESSAGE_LENGTH}
+                  placeholder="Say something…"
+                  className="min-w-0 flex-1 rounded-md border border-white/10 bg-black/40 px-2 py-1 text-xs text-white placeholder:text-gray-500 focus:outline-none focus:border-cyan-400/50"
+                />
+                <button type="submit" className="shrink-0 p-1 text-gray-400 hover:text-white" title="Send">
+                  <Send size={14} />
+                </button>
+              </form>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -5,32 +5,51 @@
 
 import React, { useRef, useEffect } from 'react';
 import { Canvas, useFrame, useThree } from '@react-three/fiber';
-import { Stars } from '@react-three/drei';
+import { OrbitControls, Stars } from '@react-three/drei';
 import { EffectComposer, Bloom } from '@react-three/postprocessing';
 import * as THREE from 'three';
-import { useGameStore, Vector3, AbilityType } from '../store/useGameStore';
+import { DEFAULT_MAP_THEME, isInsideArena } from '../shared/protocol';
+import { sampleRemoteCursor, useGameStore, Vector3, AbilityType } from '../store/useGameStore';
+import { QUALITY_PRESETS, useGraphicsSettings, useSettingsStore } from '../store/useSettingsStore';
+import { notifyActionRejected } from '../store/notifications';
+import { findAbilityByBinding } from '../abilities';
+import { audio } from '../audio/engine';
+import { Arena } from './Arena';
 import { Particles } from './Particles';
 import { ForceFields } from './ForceFields';
 import { OtherPlayers, LocalCursor } from './OtherPlayers';
+import { Pings } from './Pings';
 import { Territories } from './Territories';
 
+// Typing in the chat (or dragging a settings slider) mustn't fire abilities
+function isFormControl(target: EventTarget | null) {
+  return target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement || target instanceof HTMLSelectElement;
+}
+
 function SceneInteraction({ mousePosRef }: { mousePosRef: React.MutableRefObject<THREE.Vector3 | null> }) {
   const sendCursor = useGameStore((state) => state.sendCursor);
   const addForce = useGameStore((state) => state.addForce);
-  const canUseAbility = useGameStore((state) => state.canUseAbility);
+  const sendPing = useGameStore((state) => state.sendPing);
+  const getAbilityBlockedReason = useGameStore((state) => state.getAbilityBlockedReason);
   const { camera, gl } = useThree();
 
-  const tryUseAbility = (position: Vector3, abilityType: AbilityType) => {
-    if (!canUseAbility(abilityType)) {
+  // Refusals the client can see coming get the same toast the server's rejection would
+  const tryUseAbility = (position: Vector3, abilityType: AbilityType, angle: number) => {
+    const { map, maxActiveForceFieldsPerPlayer, serverTimeOffset } = useGameStore.getState();
+    const reason = getAbilityBlockedReason(abilityType, Date.now() + serverTimeOffset) ?? (map && !isInsideArena(position, map) ? 'out_of_bounds' : null);
+    if (reason) {
+      notifyActionRejected(reason, maxActiveForceFieldsPerPlayer);
       return;
     }
-    addForce(position, abilityType);
+    addForce(position, abilityType, abilityType === 'barrier' ? angle : undefined);
   };
 
   useEffect(() => {
     const plane = new THREE.Plane(new THREE.Vector3(0, 0, 1), 0);
     const raycaster = new THREE.Raycaster();
     const mouse = new THREE.Vector2();
+    // Direction the cursor last moved in; barriers are laid along it
+    let heading = 0;
 
     const updateMousePos = (clientX: number, clientY: number) => {
       const rect = gl.domElement.getBoundingClientRect();
@@ -39,32 +58,54 @@ function SceneInteraction({ mousePosRef }: { mousePosRef: React.MutableRefObject
       raycaster.setFromCamera(mouse, camera);
       const target = new THREE.Vector3();
       raycaster.ray.intersectPlane(plane, target);
+      const previous = mousePosRef.current;
+      if (previous && previous.distanceToSquared(target) > 0.01) {
+        heading = Math.atan2(target.y - previous.y, target.x - previous.x);
+      }
       mousePosRef.current = target;
       return target;
     };
 
+    const fireAbilityAtCursor = (abilityType: AbilityType) => {
+      const pos = mousePosRef.current;
+      if (pos) {
+        tryUseAbility({ x: pos.x, y: pos.y, z: pos.z }, abilityType, heading);
+      }
+    };
+
     const handlePointerMove = (e: PointerEvent) => {
       const pos = updateMousePos(e.clientX, e.clientY);
       sendCursor({ x: pos.x, y: pos.y, z: pos.z });
     };
 
     const handlePointerDown = (e: PointerEvent) => {
+      if (isFormControl(e.target)) {
+        return;
+      }
       window.focus(); // Ensure window has focus for keyboard events
+      // Alt-click pings "attack here" instead of firing, Alt+Shift-click "defend"
+      if (e.button === 0 && e.altKey) {
+        const pos = updateMousePos(e.clientX, e.clientY);
+        sendPing({ x: pos.x, y: pos.y, z: pos.z }, e.shiftKey ? 'defend' : 'attack');
+        return;
+      }
       // Only trigger on left click or touch
       if (e.button === 0 || e.pointerType === 'touch') {
-        const pos = updateMousePos(e.clientX, e.clientY);
-        tryUseAbility({ x: pos.x, y: pos.y, z: pos.z }, 'attractor');
+        updateMousePos(e.clientX, e.clientY);
+        const abilityType = findAbilityByBinding('Mouse0');
+        if (abilityType) {
+          fireAbilityAtCursor(abilityType);
+        }
       }
     };
 
     const handleKeyDown = (e: KeyboardEvent) => {
-      if (e.code === 'Space') {
-        if (mousePosRef.current) {
-          tryUseAbility(
-            { x: mousePosRef.current.x, y: mousePosRef.current.y, z: mousePosRef.current.z },
-            'repulsor'
-          );
-        }
+      if (isFormControl(e.target)) {
+        return;
+      }
+      const abilityType = findAbilityByBinding(e.code);
+      if (abilityType) {
+        fireAbilityAtCursor(abilityType);
       }
     };
 
@@ -82,12 +123,90 @@ function SceneInteraction({ mousePosRef }: { mousePosRef: React.MutableRefObject
       window.removeEventListener('keydown', handleKeyDown);
       window.removeEventListener('contextmenu', handleContextMenu);
     };
-  }, [camera, gl, addForce, canUseAbility, sendCursor, mousePosRef]);
+  }, [camera, gl, addForce, getAbilityBlockedReason, sendCursor, sendPing, mousePosRef]);
 
   return null;
 }
 
-function RotatingStars() {
+// Positional sounds are heard from the camera
+function AudioListener() {
+  const forward = useRef(new THREE.Vector3());
+
+  useFrame(({ camera }) => {
+    camera.getWorldDirection(forward.current);
+    audio.setListener(camera.position, forward.current, camera.up);
+  });
+
+  return null;
+}
+
+const FOLLOW_LERP = 0.1;
+
+// Orbit (drag), pan (right-drag) and zoom (wheel) for spectators and replays. While following
+// a player, the camera and its orbit target glide along with their cursor.
+function SpectatorCamera() {
+  const controlsRef = useRef<React.ComponentRef<typeof OrbitControls>>(null);
+  const { camera } = useThree();
+
+  useFrame(() => {
+    const controls = controlsRef.current;
+    const { followPlayerId } = useGameStore.getState();
+    const position = followPlayerId ? sampleRemoteCursor(followPlayerId, new THREE.Vector3()) : null;
+    if (!controls || !position) {
+      return;
+    }
+    const shift = position.sub(controls.target).multiplyScalar(FOLLOW_LERP);
+    controls.target.add(shift);
+    camera.position.add(shift);
+    controls.update();
+  });
+
+  return <OrbitControls ref={controlsRef} makeDefault enableDamping minDistance={5} maxDistance={60} />;
+}
+
+// Automatic quality: averages the frame rate over a few seconds and steps the preset down as soon
+// as it falls short of the target, or back up after a sustained stretch at the target
+const FPS_SAMPLE_SECONDS = 2;
+const FPS_STEP_DOWN_RATIO = 0.9;
+const FPS_STEP_UP_RATIO = 0.97;
+const GOOD_SAMPLES_TO_STEP_UP = 5;
+
+function AdaptiveQuality() {
+  const sample = useRef({ frames: 0, seconds: 0, goodSamples: 0 });
+
+  useFrame((_state, delta) => {
+    const { auto, targetFps, autoLevel, setAutoLevel } = useSettingsStore.getState();
+    const s = sample.current;
+    // Stalls (background tabs, debugger pauses) say nothing about rendering speed
+    if (!auto || delta > 0.5) {
+      return;
+    }
+    s.frames++;
+    s.seconds += delta;
+    if (s.seconds < FPS_SAMPLE_SECONDS) {
+      return;
+    }
+
+    const fps = s.frames / s.seconds;
+    s.frames = 0;
+    s.seconds = 0;
+    if (fps < targetFps * FPS_STEP_DOWN_RATIO) {
+      s.goodSamples = 0;
+      if (autoLevel > 0) {
+        setAutoLevel(autoLevel - 1);
+      }
+    } else if (fps >= targetFps * FPS_STEP_UP_RATIO && ++s.goodSamples >= GOOD_SAMPLES_TO_STEP_UP) {
+      s.goodSamples = 0;
+      if (autoLevel < QUALITY_PRESETS.length - 1) {
+        setAutoLevel(autoLevel + 1);
+      }
+    }
+  });
+
+  return null;
+}
+
+function RotatingStars({ count }: { count: number }) {
   const groupRef = useRef<THREE.Group>(null);
   
   useFrame((state, delta) => {
@@ -99,34 +218,45 @@ function RotatingStars() {
 
   return (
     <group ref={groupRef}>
-      <Stars radius={100} depth={50} count={5000} factor={4} saturation={0} fade speed={1} />
+      <Stars radius={100} depth={50} count={count} factor={4} saturation={0} fade speed={1} />
     </group>
   );
 }
 
-export function CosmicCanvas() {
+// Non-interactive canvases (spectators, replays) only show what the store says: no local cursor
+// or abilities, and a free camera instead
+export function CosmicCanvas({ interactive = true }: { interactive?: boolean }) {
   const mousePosRef = useRef<THREE.Vector3 | null>(null);
+  const theme = useGameStore((state) => state.map?.theme) ?? DEFAULT_MAP_THEME;
+  const graphics = useGraphicsSettings();
 
   return (
     <div className="w-full h-full absolute inset-0 bg-black">
-      <Canvas camera={{ position: [0, 0, 20], fov: 60 }}>
-        <color attach="background" args={['#050510']} />
+      <Canvas camera={{ position: [0, 0, 20], fov: 60 }} dpr={graphics.pixelRatio}>
+        <color attach="background" args={[theme.background]} />
         
         <ambientLight intensity={0.2} />
         
-        <RotatingStars />
+        <RotatingStars count={Math.round(theme.starCount * graphics.starDensity)} />
         
+        <Arena />
         <Territories />
         <Particles mousePosRef={mousePosRef} />
         <ForceFields />
+        <Pings />
         <OtherPlayers />
-        <LocalCursor mousePosRef={mousePosRef} />
+        {interactive && <LocalCursor mousePosRef={mousePosRef} />}
         
-        <SceneInteraction mousePosRef={mousePosRef} />
+        {interactive ? <SceneInteraction mousePosRef={mousePosRef} /> : <SpectatorCamera />}
         
-        <EffectComposer>
-          <Bloom luminanceThreshold={0.2} mipmapBlur intensity={1.5} />
-        </EffectComposer>
+        <AdaptiveQuality />
+        <AudioListener />
+
+        {graphics.bloom && (
+          <EffectComposer>
+            <Bloom luminanceThreshold={0.2} mipmapBlur intensity={theme.bloomIntensity * graphics.bloomIntensity} />
+          </EffectComposer>
+        )}
       </Canvas>
     </div>
   );
@@ -0,0 +1,62 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useRef } from 'react';
+import { useGameStore, type FeedEvent } from '../store/useGameStore';
+
+function Name({ text, color }: { text: string; color: string | null }) {
+  return (
+    <span className="font-medium" style={{ color: color ?? undefined }}>
+      {text}
+    </span>
+  );
+}
+
+function FeedLine({ event }: { event: FeedEvent }) {
+  const actor = <Name text={event.actor} color={event.actorColor} />;
+  if (event.kind === 'contested') {
+    return <>{actor} is attacking {event.territory} you hold</>;
+  }
+  if (event.kind === 'lost') {
+    return <>{actor} took {event.territory} from you</>;
+  }
+  return (
+    <>
+      {actor} captured {event.territory}
+      {event.owner !== null && (
+        <>
+          {' '}from <Name text={event.owner} color={event.ownerColor} />
+        </>
+      )}
+    </>
+  );
+}
+
+// Running log of territories changing hands (and of attacks on mine), newest at the bottom
+export function EventFeed() {
+  const feed = useGameStore((state) => state.feed);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    listRef.current?.scrollTo({ top: listRef.current.scrollHeight, behavior: 'smooth' });
+  }, [feed]);
+
+  if (feed.length === 0) {
+    return null;
+  }
+
+  return (
+    <div
+      ref={listRef}
+      className="pointer-events-auto max-w-sm max-h-40 overflow-y-auto rounded-xl border border-white/10 bg-black/35 backdrop-blur-md px-3 py-2 space-y-1 text-xs text-gray-300"
+    >
+      {feed.map((event) => (
+        <div key={event.id} className={event.kind === 'captured' ? undefined : 'text-amber-200'}>
+          <FeedLine event={event} />
+        </div>
+      ))}
+    </div>
+  );
+}
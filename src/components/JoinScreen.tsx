@@ -0,0 +1,99 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import { Eye, Shuffle } from 'lucide-react';
+import { useGameStore } from '../store/useGameStore';
+import { MAX_PLAYER_NAME_LENGTH, PLAYER_COLORS } from '../shared/protocol';
+
+// Pre-join screen: pick a display name and a preferred color, then play or just watch. The
+// server still has the final say on color, since no two players in a room may share one.
+export function JoinScreen({ onJoin }: { onJoin: () => void }) {
+  const profileName = useGameStore((state) => state.profileName);
+  const profileColor = useGameStore((state) => state.profileColor);
+  const setProfile = useGameStore((state) => state.setProfile);
+  const setSpectating = useGameStore((state) => state.setSpectating);
+
+  const [name, setName] = useState(profileName);
+  const [color, setColor] = useState<string | null>(profileColor);
+
+  const join = (spectate: boolean) => {
+    setProfile(name, color);
+    setSpectating(spectate);
+    onJoin();
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    join(false);
+  };
+
+  return (
+    <div className="absolute inset-0 z-30 flex items-center justify-center bg-black/60 backdrop-blur-sm">
+      <form
+        onSubmit={handleSubmit}
+        className="w-80 rounded-2xl border border-white/15 bg-black/70 p-6 space-y-5"
+      >
+        <h2 className="text-2xl font-bold tracking-tighter text-transparent bg-clip-text bg-gradient-to-r from-indigo-400 to-cyan-400">
+          Territory War
+        </h2>
+
+        <label className="block space-y-1.5">
+          <span className="text-[11px] uppercase tracking-wider text-gray-400">Display name</span>
+          <input
+            autoFocus
+            value={name}
+            maxLength={MAX_PLAYER_NAME_LENGTH}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Anonymous"
+            className="w-full rounded-lg border border-white/15 bg-white/5 px-3 py-2 text-sm outline-none focus:border-cyan-400/60"
+          />
+        </label>
+
+        <div className="space-y-1.5">
+          <span className="text-[11px] uppercase tracking-wider text-gray-400">Preferred color</span>
+          <div className="flex flex-wrap gap-2">
+            <button
+              type="button"
+              onClick={() => setColor(null)}
+              title="Any free color"
+              className={`h-7 w-7 rounded-full border flex items-center justify-center ${color === null ? 'border-white' : 'border-white/20'}`}
+            >
+              <Shuffle size={12} />
+            </button>
+            {PLAYER_COLORS.map((c) => (
+              <button
+                key={c}
+                type="button"
+                onClick={() => setColor(c)}
+                title={c}
+                className={`h-7 w-7 rounded-full border-2 ${color === c ? 'border-white' : 'border-transparent'}`}
+                style={{ backgroundColor: c }}
+              />
+            ))}
+          </div>
+        </div>
+
+        <div className="flex gap-2">
+          <button
+            type="submit"
+            className="flex-1 rounded-lg bg-gradient-to-r from-indigo-500 to-cyan-500 py-2 text-sm font-semibold hover:opacity-90 transition-opacity"
+          >
+            Play
+          </button>
+          <button
+            type="button"
+            onClick={() => join(true)}
+            title="Watch without taking a player slot"
+            className="flex items-center gap-1.5 rounded-lg border border-white/15 px-4 py-2 text-sm text-gray-300 hover:bg-white/10 transition-colors"
+          >
+            <Eye size={14} />
+            Watch
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
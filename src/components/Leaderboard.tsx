@@ -0,0 +1,138 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useState } from 'react';
+import { ChevronDown, ChevronUp, Play, Trophy } from 'lucide-react';
+import { useGameStore } from '../store/useGameStore';
+import { getPublicPlayerId, type LeaderboardSort, type MatchSummary, type PlayerTotals } from '../shared/protocol';
+
+const LEADERBOARD_LIMIT = 10;
+const RECENT_MATCHES_LIMIT = 5;
+
+const SORT_COLUMNS: { sort: LeaderboardSort; label: string; format: (player: PlayerTotals) => string }[] = [
+  { sort: 'wins', label: 'Wins', format: (p) => String(p.wins) },
+  { sort: 'captures', label: 'Captures', format: (p) => String(p.captures) },
+  { sort: 'hold_time', label: 'Hold', format: (p) => `${Math.round(p.holdTimeMs / 1000)}s` },
+  { sort: 'hit_volume', label: 'Hits', format: (p) => Math.round(p.hitVolume).toLocaleString() }
+];
+
+// All-time standings and the latest rounds (with replay links) from the stats database.
+// Refetched when opened and after every round.
+export function Leaderboard() {
+  const profileId = useGameStore((state) => state.profileId);
+  const matchPhase = useGameStore((state) => state.match?.phase);
+
+  const [open, setOpen] = useState(false);
+  const [sort, setSort] = useState<LeaderboardSort>('wins');
+  const [players, setPlayers] = useState<PlayerTotals[] | null>(null);
+  const [matches, setMatches] = useState<MatchSummary[]>([]);
+  const [error, setError] = useState(false);
+  // The leaderboard names players by public id; this is mine, to pick out my own row
+  const [myPublicId, setMyPublicId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    getPublicPlayerId(profileId).then((id) => !cancelled && setMyPublicId(id));
+    return () => {
+      cancelled = true;
+    };
+  }, [profileId]);
+
+  useEffect(() => {
+    if (!open || matchPhase === 'running') {
+      return;
+    }
+    let cancelled = false;
+    Promise.all([
+      fetch(`/api/leaderboard?sort=${sort}&limit=${LEADERBOARD_LIMIT}`).then((res) => res.json()),
+      fetch(`/api/matches?limit=${RECENT_MATCHES_LIMIT}`).then((res) => res.json())
+    ])
+      .then(([leaderboard, recent]) => {
+        if (!cancelled) {
+          setPlayers(leaderboard.players);
+          setMatches(recent.matches);
+          setError(false);
+        }
+      })
+      .catch((e) => {
+        console.error('Could not load leaderboard', e);
+        if (!cancelled) {
+          setError(true);
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, sort, matchPhase]);
+
+  const column = SORT_COLUMNS.find((c) => c.sort === sort) ?? SORT_COLUMNS[0];
+
+  return (
+    <div className="w-64 bg-white/10 backdrop-blur-md rounded-2xl border border-white/10 shadow-lg">
+      <button className="w-full flex items-center gap-2 px-4 py-3" onClick={() => setOpen((o) => !o)}>
+        <Trophy size={16} className="text-amber-300" />
+        <span className="text-sm font-medium">Leaderboard</span>
+        <span className="ml-auto text-gray-400">{open ? <ChevronUp size={14} /> : <ChevronDown size={14} />}</span>
+      </button>
+
+      {open && (
+        <div className="px-4 pb-3 space-y-2">
+          <div className="flex gap-1">
+            {SORT_COLUMNS.map((c) => (
+              <button
+                key={c.sort}
+                className={`flex-1 rounded-md px-1.5 py-1 text-[10px] uppercase tracking-wider transition-colors ${
+                  c.sort === sort ? 'bg-white/20 text-white' : 'text-gray-400 hover:bg-white/10'
+                }`}
+                onClick={() => setSort(c.sort)}
+              >
+                {c.label}
+              </button>
+            ))}
+          </div>
+
+          {error && <p className="text-xs text-rose-300">Leaderboard unavailable.</p>}
+          {!error && players?.length === 0 && <p className="text-xs text-gray-400">No finished rounds yet.</p>}
+          {!error && players && players.length > 0 && (
+            <ol className="space-y-1 text-sm">
+              {players.map((player, i) => (
+                <li key={player.id} className="flex items-center gap-2">
+                  <span className="w-4 text-right tabular-nums text-gray-500">{i + 1}</span>
+                  <span className={`truncate ${player.id === myPublicId ? 'text-white font-medium' : 'text-gray-300'}`}>
+                    {player.name}
+                  </span>
+                  <span className="ml-auto tabular-nums text-gray-200">{column.format(player)}</span>
+                </li>
+              ))}
+            </ol>
+          )}
+
+          {!error && matches.length > 0 && (
+            <div className="space-y-1 border-t border-white/10 pt-2">
+              <span className="text-[11px] uppercase tracking-wider text-gray-400">Recent rounds</span>
+              <ul className="space-y-1 text-xs">
+                {matches.map((match) => (
+                  <li key={match.id} className="flex items-center gap-2 text-gray-300">
+                    <span className="font-mono tracking-wider">{match.roomCode}</span>
+                    <span className="text-gray-500">round {match.round}</span>
+                    {match.hasReplay && (
+                      <a
+                        href={`/?replay=${match.id}`}
+                        className="ml-auto flex items-center gap-1 text-cyan-300 hover:text-cyan-100"
+                      >
+                        <Play size={10} />
+                        Replay
+                      </a>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,138 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useState } from 'react';
+import { Trophy } from 'lucide-react';
+import { useGameStore, MatchState } from '../store/useGameStore';
+
+export function formatDuration(ms: number) {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
+
+function describeWinCondition(match: MatchState) {
+  const target = formatDuration(match.winCondition.targetMs);
+  return match.winCondition.type === 'domination'
+    ? `Hold every territory for ${target}`
+    : `First to ${target} of territory hold time`;
+}
+
+// Team name in team mode; in free-for-all the team id is the player id
+function useTeamName() {
+  const players = useGameStore((state) => state.players);
+  const teams = useGameStore((state) => state.teams);
+  const myId = useGameStore((state) => state.myId);
+
+  return (teamId: string) => {
+    const team = teams.find((t) => t.id === teamId);
+    if (team) {
+      return team.name;
+    }
+    return teamId === myId ? 'You' : players[teamId]?.name ?? 'Departed player';
+  };
+}
+
+function Scoreboard({ match, myTeamId }: { match: MatchState; myTeamId: string | null }) {
+  const getTeamName = useTeamName();
+
+  if (match.scores.length === 0) {
+    return <p className="text-xs text-gray-400">No territory held yet.</p>;
+  }
+
+  return (
+    <ul className="space-y-1.5">
+      {match.scores.map((score) => (
+        <li key={score.teamId} className="flex items-center gap-3 text-sm">
+          <div className="w-3 h-3 rounded-full" style={{ backgroundColor: score.color }} />
+          <span className={score.teamId === myTeamId ? 'text-white font-medium' : 'text-gray-300'}>
+            {getTeamName(score.teamId)}
+          </span>
+          <span className="ml-auto tabular-nums text-gray-300">{formatDuration(score.holdTimeMs)}</span>
+          <span className="w-8 text-right tabular-nums text-gray-500">{score.territoriesHeld}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export function MatchOverlay() {
+  const match = useGameStore((state) => state.match);
+  const serverTimeOffset = useGameStore((state) => state.serverTimeOffset);
+  const myTeamId = useGameStore((state) => state.myTeamId);
+  const playerCount = useGameStore((state) => Object.keys(state.players).length + (state.spectating ? 0 : 1));
+  const getTeamName = useTeamName();
+
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const t = window.setInterval(() => setNow(Date.now()), 200);
+    return () => window.clearInterval(t);
+  }, []);
+
+  if (!match) {
+    return null;
+  }
+
+  const remainingMs = match.phaseEndsAt !== null ? match.phaseEndsAt - (now + serverTimeOffset) : 0;
+
+  if (match.phase === 'countdown') {
+    return (
+      <div className="absolute inset-0 z-20 pointer-events-none flex flex-col items-center justify-center gap-2">
+        <span className="text-sm uppercase tracking-[0.3em] text-gray-300">Round {match.round + 1}</span>
+        <span className="text-8xl font-bold tabular-nums text-transparent bg-clip-text bg-gradient-to-b from-white to-cyan-400">
+          {Math.max(1, Math.ceil(remainingMs / 1000))}
+        </span>
+        <span className="text-xs text-gray-400">{describeWinCondition(match)}</span>
+      </div>
+    );
+  }
+
+  if (match.phase === 'ended') {
+    // Replays are watched from outside any team, so they name the winner instead
+    const title = match.winnerTeamId === null
+      ? 'Draw'
+      : myTeamId === null
+        ? `${getTeamName(match.winnerTeamId)} wins`
+        : match.winnerTeamId === myTeamId ? 'Victory' : 'Defeat';
+    const winnerColor = match.scores.find((score) => score.teamId === match.winnerTeamId)?.color;
+    return (
+      <div className="absolute inset-0 z-20 pointer-events-none flex items-center justify-center bg-black/50 backdrop-blur-sm">
+        <div className="w-80 rounded-2xl border border-white/15 bg-black/70 p-6 space-y-4">
+          <div className="flex flex-col items-center gap-2">
+            <Trophy size={32} style={{ color: winnerColor ?? '#9ca3af' }} />
+            <h2 className="text-4xl font-bold tracking-tight">{title}</h2>
+            <span className="text-xs uppercase tracking-wider text-gray-400">Round {match.round}</span>
+          </div>
+          <Scoreboard match={match} myTeamId={myTeamId} />
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="absolute top-6 left-1/2 -translate-x-1/2 z-10 pointer-events-none flex flex-col items-center gap-2">
+      <div className="px-5 py-2 rounded-full border border-white/15 bg-black/50 backdrop-blur-md text-sm">
+        {match.phase === 'lobby' && (
+          <span className="text-gray-300">
+            Warm-up · waiting for players ({Math.min(playerCount, match.minPlayers)}/{match.minPlayers})
+          </span>
+        )}
+        {match.phase === 'running' && (
+          <span className="font-mono text-lg tabular-nums">{formatDuration(remainingMs)}</span>
+        )}
+        {match.phase === 'intermission' && (
+          <span className="text-gray-300">Next round in {formatDuration(remainingMs)}</span>
+        )}
+      </div>
+
+      {/* Standings are in the HUD scoreboard while the round runs */}
+      {match.phase === 'running' && (
+        <p className="text-[11px] uppercase tracking-wider text-gray-400">{describeWinCondition(match)}</p>
+      )}
+    </div>
+  );
+}
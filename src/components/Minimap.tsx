@@ -0,0 +1,137 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useRef } from 'react';
+import { PING_DURATION_MS, sampleRemoteCursor, useGameStore } from '../store/useGameStore';
+
+const MINIMAP_WIDTH = 220; // CSS pixels; the height follows the arena's proportions
+const MINIMAP_PADDING = 8;
+// A territory counts as contested this long after its last `territory_contested`
+const CONTESTED_MS = 3500;
+const NEUTRAL_COLOR = '#6b7280';
+const PING_RING_RADIUS = 10;
+
+/**
+ * The whole arena from above: territories in their owner's color (filled by how firmly they're
+ * held, pulsing while contested), force fields, pings and everyone's cursor. Drawn on a 2D canvas every
+ * animation frame straight from the store, outside React.
+ */
+export function Minimap() {
+  const map = useGameStore((state) => state.map);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  const bounds = map?.bounds;
+  const worldWidth = bounds ? bounds.maxX - bounds.minX : 1;
+  const worldHeight = bounds ? bounds.maxY - bounds.minY : 1;
+  const height = Math.round(((MINIMAP_WIDTH - MINIMAP_PADDING * 2) * worldHeight) / worldWidth + MINIMAP_PADDING * 2);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context || !map) {
+      return;
+    }
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = MINIMAP_WIDTH * dpr;
+    canvas.height = height * dpr;
+    context.scale(dpr, dpr);
+
+    const scale = (MINIMAP_WIDTH - MINIMAP_PADDING * 2) / worldWidth;
+    // World y points up, canvas y down
+    const toX = (x: number) => MINIMAP_PADDING + (x - map.bounds.minX) * scale;
+    const toY = (y: number) => MINIMAP_PADDING + (map.bounds.maxY - y) * scale;
+    const cursor = { x: 0, y: 0, z: 0 };
+
+    const circle = (x: number, y: number, radius: number) => {
+      context.beginPath();
+      context.arc(toX(x), toY(y), radius, 0, Math.PI * 2);
+    };
+
+    let frame = 0;
+    const draw = () => {
+      const { territories, forceFields, pendingForces, players, contestedAt, pings, abilityConfig, myColor, myCursor } =
+        useGameStore.getState();
+      const now = Date.now();
+      context.clearRect(0, 0, MINIMAP_WIDTH, height);
+
+      context.strokeStyle = 'rgba(255,255,255,0.25)';
+      context.lineWidth = 1;
+      context.strokeRect(toX(map.bounds.minX), toY(map.bounds.maxY), worldWidth * scale, worldHeight * scale);
+
+      context.fillStyle = 'rgba(255,255,255,0.12)';
+      for (const obstacle of map.obstacles) {
+        circle(obstacle.position.x, obstacle.position.y, obstacle.radius * scale);
+        context.fill();
+      }
+
+      for (const force of [...Object.values(forceFields), ...Object.values(pendingForces).map(({ force }) => force)]) {
+        context.globalAlpha = 0.18;
+        context.fillStyle = force.color;
+        circle(force.position.x, force.position.y, Math.max(2, abilityConfig[force.type].radius * scale * 0.5));
+        context.fill();
+        context.globalAlpha = 0.9;
+        circle(force.position.x, force.position.y, 1.5);
+        context.fill();
+      }
+      context.globalAlpha = 1;
+
+      for (const t of Object.values(territories)) {
+        const color = t.controllingColor ?? NEUTRAL_COLOR;
+        const radius = t.radius * scale;
+        context.globalAlpha = 0.15 + 0.6 * (t.points / 100);
+        context.fillStyle = color;
+        circle(t.position.x, t.position.y, radius);
+        context.fill();
+        context.globalAlpha = 1;
+        const contested = contestedAt[t.id] !== undefined && now - contestedAt[t.id] < CONTESTED_MS;
+        context.strokeStyle = contested ? '#fbbf24' : color;
+        context.lineWidth = contested ? 1.5 + Math.abs(Math.sin(now / 150)) * 1.5 : 1.5;
+        circle(t.position.x, t.position.y, radius);
+        context.stroke();
+      }
+
+      // A shrinking ring draws the eye to each ping
+      for (const ping of Object.values(pings)) {
+        const progress = Math.min(1, (now - ping.at) / PING_DURATION_MS);
+        context.strokeStyle = ping.color;
+        context.lineWidth = 1.5;
+        circle(ping.position.x, ping.position.y, 2 + PING_RING_RADIUS * (1 - ((now - ping.at) % 1000) / 1000));
+        context.globalAlpha = 1 - progress;
+        context.stroke();
+        context.globalAlpha = 1;
+      }
+
+      for (const player of Object.values(players)) {
+        if (player.position && sampleRemoteCursor(player.id, cursor)) {
+          context.fillStyle = player.color;
+          circle(cursor.x, cursor.y, 3);
+          context.fill();
+        }
+      }
+      if (myCursor && myColor) {
+        context.fillStyle = myColor;
+        circle(myCursor.x, myCursor.y, 3.5);
+        context.fill();
+        context.strokeStyle = '#ffffff';
+        context.lineWidth = 1;
+        context.stroke();
+      }
+
+      frame = requestAnimationFrame(draw);
+    };
+    frame = requestAnimationFrame(draw);
+    return () => cancelAnimationFrame(frame);
+  }, [map, height, worldWidth, worldHeight]);
+
+  if (!map) {
+    return null;
+  }
+
+  return (
+    <div className="absolute bottom-6 right-6 z-10 pointer-events-none rounded-xl border border-white/10 bg-black/50 backdrop-blur-md">
+      <canvas ref={canvasRef} style={{ width: MINIMAP_WIDTH, height }} />
+    </div>
+  );
+}
@@ -6,72 +6,133 @@
 import React, { useRef } from 'react';
 import { useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
-import { useGameStore } from '../store/useGameStore';
-import { Trail } from '@react-three/drei';
+import { sampleRemoteCursor, useGameStore } from '../store/useGameStore';
+import { useGraphicsSettings } from '../store/useSettingsStore';
+import { Text, Trail } from '@react-three/drei';
+import { EMOTE_LABELS } from './ChatPanel';
 
-function PlayerCursor({ position, color }: { position: THREE.Vector3; color: string }) {
+const NAME_OFFSET = new THREE.Vector3(0, 0.9, 0);
+const EMOTE_OFFSET = new THREE.Vector3(0, 1.6, 0);
+
+// The player's current emote, if any, floating above their cursor (and name)
+const EmoteBubble = React.forwardRef<THREE.Object3D, { playerId: string; color: string }>(({ playerId, color }, ref) => {
+  const emote = useGameStore((state) => state.emotes[playerId]?.emote);
+  if (!emote) {
+    return null;
+  }
+  return (
+    <Text
+      ref={ref}
+      fontSize={0.55}
+      color="#ffffff"
+      anchorX="center"
+      anchorY="bottom"
+      outlineWidth={0.06}
+      outlineColor={color}
+    >
+      {EMOTE_LABELS[emote]}
+    </Text>
+  );
+});
+
+// Trail behind a cursor, as long as the graphics settings allow (none at all at length 0)
+function CursorTrail({ color, children }: { color: string; children: React.ReactElement }) {
+  const { trailLength } = useGraphicsSettings();
+  if (trailLength <= 0) {
+    return children;
+  }
+  return (
+    <Trail
+      width={0.5}
+      length={trailLength}
+      color={new THREE.Color(color)}
+      attenuation={(t) => t * t}
+    >
+      {children}
+    </Trail>
+  );
+}
+
+// `position` only places the cursor when it first appears; after that it follows the interpolated snapshots
+function PlayerCursor({ id, position, color, name }: { id: string; position: THREE.Vector3; color: string; name: string }) {
   const meshRef = useRef<THREE.Mesh>(null);
+  const labelRef = useRef<THREE.Object3D>(null);
+  const emoteRef = useRef<THREE.Object3D>(null);
 
   useFrame((state) => {
     if (meshRef.current) {
-      // Smoothly interpolate position
-      meshRef.current.position.lerp(position, 0.2);
+      sampleRemoteCursor(id, meshRef.current.position);
       // Add a fast pulsing effect based on spawn rate
       const scale = 1 + Math.sin(state.clock.elapsedTime * 8) * 0.2;
       meshRef.current.scale.set(scale, scale, scale);
+
+      // Label follows the cursor but not its pulse
+      labelRef.current?.position.copy(meshRef.current.position).add(NAME_OFFSET);
+      emoteRef.current?.position.copy(meshRef.current.position).add(EMOTE_OFFSET);
     }
   });
 
   return (
-    <Trail
-      width={0.5}
-      length={20}
-      color={new THREE.Color(color)}
-      attenuation={(t) => t * t}
-    >
-      <mesh ref={meshRef} position={position}>
-        <sphereGeometry args={[0.2, 32, 32]} />
-        <meshBasicMaterial color={color} transparent opacity={0.8} />
-        {/* Outer glow */}
-        <mesh>
-          <sphereGeometry args={[0.6, 32, 32]} />
-          <meshBasicMaterial color={color} transparent opacity={0.2} blending={THREE.AdditiveBlending} depthWrite={false} />
+    <>
+      <EmoteBubble ref={emoteRef} playerId={id} color={color} />
+      <Text
+        ref={labelRef}
+        position={position.clone().add(NAME_OFFSET)}
+        fontSize={0.45}
+        color={color}
+        anchorX="center"
+        anchorY="bottom"
+        outlineWidth={0.03}
+        outlineColor="#000000"
+      >
+        {name}
+      </Text>
+      <CursorTrail color={color}>
+        <mesh ref={meshRef} position={position}>
+          <sphereGeometry args={[0.2, 32, 32]} />
+          <meshBasicMaterial color={color} transparent opacity={0.8} />
+          {/* Outer glow */}
+          <mesh>
+            <sphereGeometry args={[0.6, 32, 32]} />
+            <meshBasicMaterial color={color} transparent opacity={0.2} blending={THREE.AdditiveBlending} depthWrite={false} />
+          </mesh>
         </mesh>
-      </mesh>
-    </Trail>
+      </CursorTrail>
+    </>
   );
 }
 
 export function LocalCursor({ mousePosRef }: { mousePosRef: React.MutableRefObject<THREE.Vector3 | null> }) {
+  const myId = useGameStore((state) => state.myId);
   const myColor = useGameStore((state) => state.myColor);
   const meshRef = useRef<THREE.Mesh>(null);
+  const emoteRef = useRef<THREE.Object3D>(null);
 
   useFrame((state) => {
     if (meshRef.current && mousePosRef.current) {
       meshRef.current.position.lerp(mousePosRef.current, 0.5);
       const scale = 1 + Math.sin(state.clock.elapsedTime * 8) * 0.2;
       meshRef.current.scale.set(scale, scale, scale);
+      emoteRef.current?.position.copy(meshRef.current.position).add(NAME_OFFSET);
     }
   });
 
-  if (!myColor) return null;
+  if (!myColor || !myId) return null;
 
   return (
-    <Trail
-      width={0.5}
-      length={20}
-      color={new THREE.Color(myColor)}
-      attenuation={(t) => t * t}
-    >
-      <mesh ref={meshRef}>
-        <sphereGeometry args={[0.2, 32, 32]} />
-        <meshBasicMaterial color={myColor} transparent opacity={0.8} />
-        <mesh>
-          <sphereGeometry args={[0.6, 32, 32]} />
-          <meshBasicMaterial color={myColor} transparent opacity={0.2} blending={THREE.AdditiveBlending} depthWrite={false} />
+    <>
+      <EmoteBubble ref={emoteRef} playerId={myId} color={myColor} />
+      <CursorTrail color={myColor}>
+        <mesh ref={meshRef}>
+          <sphereGeometry args={[0.2, 32, 32]} />
+          <meshBasicMaterial color={myColor} transparent opacity={0.8} />
+          <mesh>
+            <sphereGeometry args={[0.6, 32, 32]} />
+            <meshBasicMaterial color={myColor} transparent opacity={0.2} blending={THREE.AdditiveBlending} depthWrite={false} />
+          </mesh>
         </mesh>
-      </mesh>
-    </Trail>
+      </CursorTrail>
+    </>
   );
 }
 
@@ -80,11 +141,11 @@ export function OtherPlayers() {
 
   return (
     <>
-      {Object.values(players).map((player) => {
-        if (!player.position) return null;
-        const pos = new THREE.Vector3(player.position.x, player.position.y, player.position.z);
-        return <PlayerCursor key={player.id} position={pos} color={player.color} />;
-      })}
+        {Object.values(players).map((player) => {
+          if (!player.position) return null;
+          const pos = new THREE.Vector3(player.position.x, player.position.y, player.position.z);
+          return <PlayerCursor key={player.id} id={player.id} position={pos} color={player.color} name={player.name} />;
+        })}
     </>
   );
 }
@@ -3,28 +3,42 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import React, { useRef, useMemo } from 'react';
+import React, { useRef, useMemo, useEffect } from 'react';
 import { useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
-import { useGameStore, Vector3 } from '../store/useGameStore';
-import { computeCurl } from '../utils/curlNoise';
-
-const MAX_PARTICLES = 25000;
-const PARTICLE_LIFETIME = 3.0; // seconds
-
-interface Particle {
-  active: boolean;
-  position: THREE.Vector3;
-  velocity: THREE.Vector3;
-  color: THREE.Color;
-  baseColor: THREE.Color;
-  life: number;
-  isMine: boolean;
+import { ABILITIES } from '../abilities';
+import { PLAYER_PARTICLE_RATE_PER_SECOND } from '../shared/protocol';
+import { audio } from '../audio/engine';
+import { sampleRemoteCursor, useGameStore } from '../store/useGameStore';
+import { MAX_PARTICLE_BUDGET, useGraphicsSettings } from '../store/useSettingsStore';
+import type { ParticleWorkerFrame, ParticleWorkerRequest } from '../particles/messages';
+import { COLOR_STRIDE, MATRIX_STRIDE, type ParticleEmitter, type StepInput } from '../particles/simulation';
+
+// Everyone else's cursors spray half as many particles as mine, at full spawn rate
+const OTHER_SPAWN_RATE_PER_SECOND = PLAYER_PARTICLE_RATE_PER_SECOND / 2;
+// Longest single step; after a stall (background tab) particles skip ahead instead of exploding
+const MAX_STEP_SECONDS = 0.1;
+
+interface FrameBuffers {
+  matrices: Float32Array;
+  colors: Float32Array;
 }
 
+/**
+ * Renders the particle stream. The simulation itself runs in a worker: every frame this sends
+ * it the emitters, forces and territories, and the worker hands back instance matrices and
+ * colors in a pair of transferred buffers. Only one step is in flight at a time; frames that
+ * come around while the worker is busy just add to the next step's time. The worker is sized for
+ * the largest budget; the graphics settings decide how much of it is used.
+ */
 export function Particles({ mousePosRef }: { mousePosRef: React.MutableRefObject<THREE.Vector3 | null> }) {
   const meshRef = useRef<THREE.InstancedMesh>(null);
-  
+  const workerRef = useRef<Worker | null>(null);
+  // Null while the worker holds them
+  const buffersRef = useRef<FrameBuffers | null>(null);
+  const pendingDelta = useRef(0);
+  const { particleBudget, spawnRate } = useGraphicsSettings();
+
   const particleTexture = useMemo(() => {
     const canvas = document.createElement('canvas');
     canvas.width = 64;
@@ -40,214 +54,132 @@ export function Particles({ mousePosRef }: { mousePosRef: React.MutableRefObject
     return new THREE.CanvasTexture(canvas);
   }, []);
 
-  // Initialize instanceColor
-  React.useEffect(() => {
+  // Initialize instanceColor, and hide every instance until the first frame comes back
+  useEffect(() => {
     if (meshRef.current) {
       const color = new THREE.Color();
-      for (let i = 0; i < MAX_PARTICLES; i++) {
+      const hidden = new THREE.Matrix4().makeScale(0, 0, 0);
+      for (let i = 0; i < MAX_PARTICLE_BUDGET; i++) {
         meshRef.current.setColorAt(i, color);
+        meshRef.current.setMatrixAt(i, hidden);
       }
+      meshRef.current.instanceMatrix.needsUpdate = true;
       if (meshRef.current.instanceColor) {
         meshRef.current.instanceColor.needsUpdate = true;
       }
     }
   }, []);
 
-  const myColor = useGameStore((state) => state.myColor);
-  const players = useGameStore((state) => state.players);
-  const forceFields = useGameStore((state) => state.forceFields);
-
-  const particles = useMemo(() => {
-    const arr: Particle[] = [];
-    for (let i = 0; i < MAX_PARTICLES; i++) {
-      arr.push({
-        active: false,
-        position: new THREE.Vector3(),
-        velocity: new THREE.Vector3(),
-        color: new THREE.Color(),
-        baseColor: new THREE.Color(),
-        life: 0,
-        isMine: false,
-      });
-    }
-    return arr;
-  }, []);
-
-  const dummy = useMemo(() => new THREE.Object3D(), []);
-  const spawnIndex = useRef(0);
-
-  const spawnParticle = (pos: THREE.Vector3, colorHex: string, isMine: boolean) => {
-    const p = particles[spawnIndex.current];
-    p.active = true;
-    p.position.copy(pos);
-    // Add some random spread
-    p.position.x += (Math.random() - 0.5) * 1.5;
-    p.position.y += (Math.random() - 0.5) * 1.5;
-    p.position.z += (Math.random() - 0.5) * 1.5;
-    
-    p.velocity.set(
-      (Math.random() - 0.5) * 2.0,
-      (Math.random() - 0.5) * 2.0,
-      (Math.random() - 0.5) * 2.0
-    );
-    p.color.set(colorHex);
-    p.baseColor.set(colorHex);
-    p.life = PARTICLE_LIFETIME;
-    p.isMine = isMine;
-
-    spawnIndex.current = (spawnIndex.current + 1) % MAX_PARTICLES;
-  };
-
-  const pendingHits = useRef<Record<string, number>>({});
-  const lastHitSend = useRef(0);
-
-  useFrame((state, delta) => {
-    if (!meshRef.current) return;
-
-    // Spawn my particles
-    if (mousePosRef.current && myColor) {
-      // Spawn a few per frame
-      for (let i = 0; i < 80; i++) {
-        spawnParticle(mousePosRef.current, myColor, true);
-      }
-    }
-
-    // Spawn other players' particles
-    Object.values(players).forEach(player => {
-      if (player.position && player.color) {
-        const pPos = new THREE.Vector3(player.position.x, player.position.y, player.position.z);
-        for (let i = 0; i < 40; i++) {
-          spawnParticle(pPos, player.color, false);
+  useEffect(() => {
+    const worker = new Worker(new URL('../particles/particles.worker.ts', import.meta.url), { type: 'module' });
+    const init: ParticleWorkerRequest = { type: 'init', capacity: MAX_PARTICLE_BUDGET };
+    worker.postMessage(init);
+    buffersRef.current = {
+      matrices: new Float32Array(MAX_PARTICLE_BUDGET * MATRIX_STRIDE),
+      colors: new Float32Array(MAX_PARTICLE_BUDGET * COLOR_STRIDE)
+    };
+
+    worker.onmessage = (event: MessageEvent<ParticleWorkerFrame>) => {
+      const frame = event.data;
+      const mesh = meshRef.current;
+      if (mesh) {
+        mesh.count = frame.count;
+        (mesh.instanceMatrix.array as Float32Array).set(frame.matrices.subarray(0, frame.count * MATRIX_STRIDE));
+        mesh.instanceMatrix.needsUpdate = true;
+        if (mesh.instanceColor) {
+          (mesh.instanceColor.array as Float32Array).set(frame.colors.subarray(0, frame.count * COLOR_STRIDE));
+          mesh.instanceColor.needsUpdate = true;
         }
       }
-    });
-
-    const forces = Object.values(forceFields);
-    const territories = useGameStore.getState().territories;
-    const up = new THREE.Vector3(0, 1, 0);
-    const quaternion = new THREE.Quaternion();
-    const emberColor = new THREE.Color('#ff3300');
-    const whiteColor = new THREE.Color('#ffffff');
-
-    for (let i = 0; i < MAX_PARTICLES; i++) {
-      const p = particles[i];
-      if (!p.active) {
-        dummy.position.set(0, 0, 0);
-        dummy.scale.set(0, 0, 0);
-        dummy.updateMatrix();
-        meshRef.current.setMatrixAt(i, dummy.matrix);
-        continue;
-      }
+      buffersRef.current = { matrices: frame.matrices, colors: frame.colors };
+      audio.setParticleDensity(frame.count > 0 ? frame.alive / frame.count : 0);
 
-      p.life -= delta;
-      if (p.life <= 0) {
-        p.active = false;
-        dummy.scale.set(0, 0, 0);
-        dummy.updateMatrix();
-        meshRef.current.setMatrixAt(i, dummy.matrix);
-        continue;
-      }
-
-      // Apply curl noise
-      const curl = computeCurl(p.position.x * 0.3, p.position.y * 0.3, p.position.z * 0.3);
-      p.velocity.add(curl.multiplyScalar(delta * 5.0));
-
-      // Apply force fields
-      for (const force of forces) {
-        const fPos = new THREE.Vector3(force.position.x, force.position.y, force.position.z);
-        const dir = new THREE.Vector3().subVectors(fPos, p.position);
-        const distSq = dir.lengthSq();
-        
-        // Avoid division by zero and extreme forces
-        if (distSq > 0.1 && distSq < 400) {
-          dir.normalize();
-          const strength = 100.0 / distSq;
-          if (force.type === 'attractor') {
-            p.velocity.add(dir.multiplyScalar(strength * delta));
-            // Tint particle if close to attractor
-            if (distSq < 10) {
-               p.baseColor.lerp(whiteColor, 0.05); // permanently tint a bit
-            }
-          } else {
-            p.velocity.sub(dir.multiplyScalar(strength * delta));
-          }
-        }
-      }
-
-      // Check territory collisions
-      if (p.isMine) {
-        for (const t of Object.values(territories)) {
-          const dx = p.position.x - t.position.x;
-          const dy = p.position.y - t.position.y;
-          const dz = p.position.z - t.position.z;
-          const distSq = dx*dx + dy*dy + dz*dz;
-          if (distSq < t.radius * t.radius) {
-            pendingHits.current[t.id] = (pendingHits.current[t.id] || 0) + 1;
-            p.life = 0; // kill it
-            break;
+      if (frame.hits) {
+        for (const [territoryId, count] of Object.entries(frame.hits)) {
+          if (count > 0) {
+            useGameStore.getState().hitTerritory(territoryId, count);
           }
         }
       }
+    };
+
+    workerRef.current = worker;
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+      buffersRef.current = null;
+    };
+  }, []);
 
-      // Damping
-      p.velocity.multiplyScalar(0.96);
-      p.position.addScaledVector(p.velocity, delta);
-
-      // Color shift based on life
-      const lifeRatio = p.life / PARTICLE_LIFETIME;
-      p.color.copy(p.baseColor);
-      p.color.lerp(emberColor, Math.pow(1 - lifeRatio, 2));
-
-      // Update instanced mesh
-      dummy.position.copy(p.position);
-      
-      const speed = p.velocity.length();
-      // Scale down as life decreases, base size is larger for soft blending
-      const scale = (p.life / PARTICLE_LIFETIME) * 0.08;
-      // Stretch along velocity, clamp to prevent extreme distortion
-      const stretch = Math.min(4, Math.max(1, speed * 0.1));
-      
-      dummy.scale.set(scale, scale, scale * stretch);
-
-      // Orient along velocity
-      if (speed > 0.01) {
-        const dir = p.velocity.clone().normalize();
-        quaternion.setFromUnitVectors(up, dir);
-        dummy.quaternion.copy(quaternion);
-      }
-
-      dummy.updateMatrix();
-
-      meshRef.current.setMatrixAt(i, dummy.matrix);
-      meshRef.current.setColorAt(i, p.color);
+  useFrame((_state, delta) => {
+    pendingDelta.current += delta;
+    const worker = workerRef.current;
+    const buffers = buffersRef.current;
+    if (!worker || !buffers) {
+      return;
     }
 
-    meshRef.current.instanceMatrix.needsUpdate = true;
-    if (meshRef.current.instanceColor) {
-      meshRef.current.instanceColor.needsUpdate = true;
-    }
+    const { myColor, players, forceFields, pendingForces, territories, map, flowField, abilityConfig, serverTimeOffset } =
+      useGameStore.getState();
 
-    // Send hits periodically
-    if (state.clock.elapsedTime - lastHitSend.current > 0.1) {
-      const hitsToSend = pendingHits.current;
-      pendingHits.current = {};
-      lastHitSend.current = state.clock.elapsedTime;
-      
-      for (const [tId, count] of Object.entries(hitsToSend)) {
-        if (count > 0) {
-          useGameStore.getState().hitTerritory(tId, count);
-        }
+    const emitters: ParticleEmitter[] = [];
+    if (mousePosRef.current && myColor) {
+      const { x, y, z } = mousePosRef.current;
+      emitters.push({ position: { x, y, z }, color: myColor, ratePerSecond: PLAYER_PARTICLE_RATE_PER_SECOND * spawnRate, mine: true });
+    }
+    // Other players' streams come out of their cursors where they're drawn, not the raw snapshot
+    for (const player of Object.values(players)) {
+      const position = player.position && sampleRemoteCursor(player.id, { x: 0, y: 0, z: 0 });
+      if (position && player.color) {
+        emitters.push({
+          position,
+          color: player.color,
+          ratePerSecond: OTHER_SPAWN_RATE_PER_SECOND * spawnRate,
+          mine: false
+        });
       }
     }
+
+    const input: StepInput = {
+      delta: Math.min(pendingDelta.current, MAX_STEP_SECONDS),
+      budget: particleBudget,
+      hitWeight: 1 / spawnRate,
+      emitters,
+      forces: [
+        ...Object.values(forceFields),
+        // My ghosts push particles too, except one-shots: those fire once per id, and would fire
+        // again when the real one arrives
+        ...Object.values(pendingForces)
+          .map(({ force }) => force)
+          .filter((force) => !ABILITIES[force.type].force.once)
+      ].map((force) => ({
+        id: force.id,
+        type: force.type,
+        position: force.position,
+        angle: force.angle,
+        radius: abilityConfig[force.type].radius
+      })),
+      territories: Object.values(territories).map(({ id, position, radius }) => ({ id, position, radius })),
+      arena: map ? { bounds: map.bounds, obstacles: map.obstacles } : null,
+      // Seed 0 only until `init` arrives; it's replaced before anything is played
+      flowSeed: flowField?.seed ?? 0,
+      // Shared clock for the flow field: seconds of server time since the field was seeded
+      flowSeconds: flowField ? (Date.now() + serverTimeOffset - flowField.epoch) / 1000 : 0
+    };
+    pendingDelta.current = 0;
+
+    const step: ParticleWorkerRequest = { type: 'step', input, matrices: buffers.matrices, colors: buffers.colors };
+    buffersRef.current = null;
+    worker.postMessage(step, [buffers.matrices.buffer, buffers.colors.buffer]);
   });
 
   return (
-    <instancedMesh ref={meshRef} args={[undefined, undefined, MAX_PARTICLES]}>
+    <instancedMesh ref={meshRef} args={[undefined, undefined, MAX_PARTICLE_BUDGET]}>
       <sphereGeometry args={[1, 16, 16]} />
-      <meshBasicMaterial 
+      <meshBasicMaterial
         map={particleTexture}
-        transparent 
-        opacity={0.8} 
+        transparent
+        opacity={0.8}
         blending={THREE.AdditiveBlending}
         depthWrite={false}
       />
@@ -0,0 +1,77 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { Text } from '@react-three/drei';
+import * as THREE from 'three';
+import { PING_DURATION_MS, useGameStore, type Ping, type PingKind } from '../store/useGameStore';
+
+const PING_LABELS: Record<PingKind, string> = {
+  attack: 'Attack here',
+  defend: 'Defend'
+};
+
+// Attack pings send ripples outward; defend pings draw them in
+const RIPPLE_PERIOD_MS = 900;
+const RIPPLE_RADIUS = 2.2;
+const SHRINK_MS = 300;
+
+function PingMarker({ ping }: { ping: Ping }) {
+  const groupRef = useRef<THREE.Group>(null);
+  const rippleRef = useRef<THREE.Mesh>(null);
+
+  useFrame(() => {
+    const age = Date.now() - ping.at;
+    const size = Math.max(0, Math.min(1, (PING_DURATION_MS - age) / SHRINK_MS));
+    const phase = (age % RIPPLE_PERIOD_MS) / RIPPLE_PERIOD_MS;
+    const ripple = ping.kind === 'attack' ? phase : 1 - phase;
+    if (rippleRef.current) {
+      const scale = 0.3 + ripple * RIPPLE_RADIUS;
+      rippleRef.current.scale.set(scale, scale, scale);
+      (rippleRef.current.material as THREE.MeshBasicMaterial).opacity = (1 - ripple) * 0.8;
+    }
+    // Shrinks away at the end rather than fading, which the label's text material won't do
+    groupRef.current?.scale.setScalar(Math.max(0.001, size));
+  });
+
+  return (
+    <group ref={groupRef} position={[ping.position.x, ping.position.y, ping.position.z]}>
+      <mesh ref={rippleRef}>
+        <ringGeometry args={[0.9, 1, 48]} />
+        <meshBasicMaterial color={ping.color} side={THREE.DoubleSide} transparent opacity={0} blending={THREE.AdditiveBlending} depthWrite={false} />
+      </mesh>
+      <mesh>
+        {/* A diamond for attacks, a ring for holding ground */}
+        {ping.kind === 'attack' ? <circleGeometry args={[0.45, 4]} /> : <ringGeometry args={[0.35, 0.5, 32]} />}
+        <meshBasicMaterial color={ping.color} side={THREE.DoubleSide} transparent depthWrite={false} />
+      </mesh>
+      <Text
+        position={[0, 0.9, 0]}
+        fontSize={0.5}
+        color={ping.color}
+        anchorX="center"
+        anchorY="bottom"
+        outlineWidth={0.04}
+        outlineColor="#000000"
+      >
+        {PING_LABELS[ping.kind]}
+      </Text>
+    </group>
+  );
+}
+
+// Markers players drop with a modifier-click, until they expire
+export function Pings() {
+  const pings = useGameStore((state) => state.pings);
+
+  return (
+    <>
+      {Object.values(pings).map((ping) => (
+        <PingMarker key={ping.id} ping={ping} />
+      ))}
+    </>
+  );
+}
@@ -0,0 +1,109 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect } from 'react';
+import { Pause, Play } from 'lucide-react';
+import { REPLAY_SPEEDS, useReplayStore } from '../store/useReplayStore';
+import { formatDuration } from './MatchOverlay';
+
+// Timeline for a recorded round: play/pause, scrubbing, playback speed, and a tick per capture
+export function ReplayControls({ matchId }: { matchId: number }) {
+  const replay = useReplayStore((state) => state.replay);
+  const error = useReplayStore((state) => state.error);
+  const timeMs = useReplayStore((state) => state.timeMs);
+  const playing = useReplayStore((state) => state.playing);
+  const speed = useReplayStore((state) => state.speed);
+  const load = useReplayStore((state) => state.load);
+  const play = useReplayStore((state) => state.play);
+  const pause = useReplayStore((state) => state.pause);
+  const seek = useReplayStore((state) => state.seek);
+  const setSpeed = useReplayStore((state) => state.setSpeed);
+  const advance = useReplayStore((state) => state.advance);
+
+  useEffect(() => {
+    load(matchId);
+  }, [matchId, load]);
+
+  useEffect(() => {
+    let frame = 0;
+    let last = performance.now();
+    const step = (now: number) => {
+      advance(now - last);
+      last = now;
+      frame = requestAnimationFrame(step);
+    };
+    frame = requestAnimationFrame(step);
+    return () => cancelAnimationFrame(frame);
+  }, [advance]);
+
+  if (error) {
+    return (
+      <div className="absolute bottom-6 left-1/2 -translate-x-1/2 z-20 rounded-xl border border-rose-400/30 bg-rose-950/60 px-4 py-3 text-sm text-rose-200">
+        {error} <a href="/" className="underline text-rose-100">Back to the game</a>
+      </div>
+    );
+  }
+
+  if (!replay) {
+    return (
+      <div className="absolute bottom-6 left-1/2 -translate-x-1/2 z-20 text-sm text-gray-400">Loading replay…</div>
+    );
+  }
+
+  return (
+    <div className="absolute bottom-6 left-1/2 -translate-x-1/2 z-20 w-[36rem] max-w-[90vw] rounded-2xl border border-white/15 bg-black/60 backdrop-blur-md px-4 py-3 space-y-2">
+      <div className="flex items-center gap-3 text-xs text-gray-300">
+        <span className="uppercase tracking-wider text-gray-400">Replay · Match {matchId} · Room {replay.roomCode}</span>
+        <a href="/" className="ml-auto underline hover:text-white">Back to the game</a>
+      </div>
+
+      <div className="relative pt-2">
+        {replay.captures.map((capture, i) => (
+          <div
+            key={i}
+            className="absolute top-0 h-2 w-0.5 -translate-x-1/2 rounded-full"
+            style={{ left: `${(capture.t / Math.max(1, replay.durationMs)) * 100}%`, backgroundColor: capture.color }}
+            title={`${capture.territoryId} captured at ${formatDuration(capture.t)}`}
+          />
+        ))}
+        <input
+          type="range"
+          min={0}
+          max={replay.durationMs}
+          step={100}
+          value={timeMs}
+          onChange={(e) => seek(Number(e.target.value))}
+          className="w-full accent-cyan-400"
+        />
+      </div>
+
+      <div className="flex items-center gap-3">
+        <button
+          className="h-8 w-8 rounded-full flex items-center justify-center bg-white/10 hover:bg-white/20 transition-colors"
+          onClick={playing ? pause : play}
+          title={playing ? 'Pause' : 'Play'}
+        >
+          {playing ? <Pause size={14} /> : <Play size={14} />}
+        </button>
+        <span className="font-mono text-sm tabular-nums text-gray-200">
+          {formatDuration(timeMs)} / {formatDuration(replay.durationMs)}
+        </span>
+        <div className="ml-auto flex gap-1">
+          {REPLAY_SPEEDS.map((s) => (
+            <button
+              key={s}
+              className={`rounded-md px-2 py-1 text-xs tabular-nums transition-colors ${
+                s === speed ? 'bg-white/20 text-white' : 'text-gray-400 hover:bg-white/10'
+              }`}
+              onClick={() => setSpeed(s)}
+            >
+              {s}×
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
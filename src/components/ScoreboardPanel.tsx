@@ -0,0 +1,143 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Minus, TrendingDown, TrendingUp } from 'lucide-react';
+import { useGameStore, type Territory } from '../store/useGameStore';
+import { formatDuration } from './MatchOverlay';
+
+const REFRESH_MS = 500;
+// Momentum compares control now with control this long ago
+const MOMENTUM_WINDOW_MS = 3000;
+// Below this (territory-equivalents per second) a side counts as holding steady
+const MOMENTUM_DEADZONE = 0.01;
+
+interface ScoreEntry {
+  teamId: string;
+  name: string;
+  color: string;
+  isMine: boolean;
+}
+
+interface ControlSample {
+  at: number;
+  control: Record<string, number>;
+}
+
+// How much of the board each team holds right now: every territory counts its weight, scaled by
+// how firmly it's held
+function measureControl(territories: Territory[]) {
+  const control: Record<string, number> = {};
+  for (const t of territories) {
+    if (t.controllingTeamId) {
+      control[t.controllingTeamId] = (control[t.controllingTeamId] ?? 0) + (t.weight * t.points) / 100;
+    }
+  }
+  return control;
+}
+
+function MomentumIcon({ momentum }: { momentum: number }) {
+  if (momentum > MOMENTUM_DEADZONE) {
+    return <span title="Gaining ground"><TrendingUp size={14} className="text-emerald-400" /></span>;
+  }
+  if (momentum < -MOMENTUM_DEADZONE) {
+    return <span title="Losing ground"><TrendingDown size={14} className="text-rose-400" /></span>;
+  }
+  return <span title="Holding steady"><Minus size={14} className="text-gray-500" /></span>;
+}
+
+/**
+ * Everyone in the room (every team, in team games) with what they hold now, their hold time this
+ * round and which way it's going. Hold time comes from the once-a-second match state and is
+ * carried forward in between from the territories they hold.
+ */
+export function ScoreboardPanel() {
+  const myId = useGameStore((state) => state.myId);
+  const myName = useGameStore((state) => state.myName);
+  const myColor = useGameStore((state) => state.myColor);
+  const myTeamId = useGameStore((state) => state.myTeamId);
+  const mode = useGameStore((state) => state.mode);
+  const teams = useGameStore((state) => state.teams);
+  const players = useGameStore((state) => state.players);
+  const match = useGameStore((state) => state.match);
+
+  const [now, setNow] = useState(Date.now());
+  const samples = useRef<ControlSample[]>([]);
+
+  useEffect(() => {
+    const t = window.setInterval(() => setNow(Date.now()), REFRESH_MS);
+    return () => window.clearInterval(t);
+  }, []);
+
+  // Read on the refresh tick rather than subscribed; territories change 20 times a second
+  const { territories: territoryMap, serverTimeOffset } = useGameStore.getState();
+  const territories = Object.values(territoryMap);
+  const control = measureControl(territories);
+
+  useEffect(() => {
+    samples.current = [...samples.current.filter((s) => now - s.at <= MOMENTUM_WINDOW_MS), { at: now, control }];
+  }, [now]);
+  const oldest = samples.current[0];
+  const momentumOf = (teamId: string) =>
+    oldest && now > oldest.at ? ((control[teamId] ?? 0) - (oldest.control[teamId] ?? 0)) / ((now - oldest.at) / 1000) : 0;
+
+  const entries: ScoreEntry[] =
+    mode === 'teams'
+      ? teams.map((team) => ({ teamId: team.id, name: team.name, color: team.color, isMine: team.id === myTeamId }))
+      : [
+          ...(myId && myName && myColor ? [{ teamId: myId, name: myName, color: myColor, isMine: true }] : []),
+          ...Object.values(players)
+            .filter((p) => p.connected)
+            .map((p) => ({ teamId: p.teamId, name: p.name, color: p.color, isMine: false }))
+        ];
+
+  const running = match?.phase === 'running';
+  const sinceMatchState = match ? Math.max(0, now + serverTimeOffset - match.serverTime) : 0;
+  const holdTimeOf = (teamId: string) => {
+    const reported = match?.scores.find((score) => score.teamId === teamId)?.holdTimeMs ?? 0;
+    if (!running) {
+      return reported;
+    }
+    const heldWeight = territories.filter((t) => t.controllingTeamId === teamId).reduce((sum, t) => sum + t.weight, 0);
+    return reported + sinceMatchState * heldWeight;
+  };
+
+  const rows = entries
+    .map((entry) => ({
+      ...entry,
+      held: territories.filter((t) => t.controllingTeamId === entry.teamId).length,
+      holdTimeMs: holdTimeOf(entry.teamId),
+      momentum: momentumOf(entry.teamId)
+    }))
+    .sort((a, b) => b.holdTimeMs - a.holdTimeMs || b.held - a.held);
+
+  if (rows.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="w-64 bg-white/10 backdrop-blur-md px-4 py-3 rounded-2xl border border-white/10 shadow-lg space-y-2">
+      <div className="grid grid-cols-[1fr_auto_auto_auto] gap-x-3 text-[11px] uppercase tracking-wider text-gray-400">
+        <span>Scoreboard</span>
+        <span title="Territories held">Held</span>
+        <span title="Hold time this round">Time</span>
+        <span />
+      </div>
+      <ul className="space-y-1.5">
+        {rows.map((row) => (
+          <li key={row.teamId} className="grid grid-cols-[1fr_auto_auto_auto] items-center gap-x-3 text-sm">
+            <span className="flex items-center gap-2 min-w-0">
+              <span className="w-3 h-3 shrink-0 rounded-full" style={{ backgroundColor: row.color }} />
+              <span className={`truncate ${row.isMine ? 'text-white font-medium' : 'text-gray-300'}`}>{row.name}</span>
+            </span>
+            <span className="w-8 text-right tabular-nums text-gray-300">{row.held}</span>
+            <span className="w-10 text-right tabular-nums text-gray-300">{formatDuration(row.holdTimeMs)}</span>
+            <MomentumIcon momentum={row.momentum} />
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
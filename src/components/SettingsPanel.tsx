@@ -0,0 +1,128 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import { ChevronDown, ChevronUp, Settings } from 'lucide-react';
+import {
+  MAX_PARTICLE_BUDGET,
+  QUALITY_PRESETS,
+  TARGET_FPS_OPTIONS,
+  useGraphicsSettings,
+  useSettingsStore,
+  type GraphicsSettings
+} from '../store/useSettingsStore';
+
+type NumericSetting = { [K in keyof GraphicsSettings]: GraphicsSettings[K] extends number ? K : never }[keyof GraphicsSettings];
+
+const SLIDERS: { key: NumericSetting; label: string; min: number; max: number; step: number; format: (value: number) => string }[] = [
+  { key: 'particleBudget', label: 'Particles', min: 2000, max: MAX_PARTICLE_BUDGET, step: 1000, format: (v) => v.toLocaleString() },
+  { key: 'spawnRate', label: 'Spawn rate', min: 0.25, max: 1, step: 0.05, format: (v) => `${Math.round(v * 100)}%` },
+  { key: 'bloomIntensity', label: 'Bloom', min: 0, max: 2, step: 0.1, format: (v) => `${v.toFixed(1)}×` },
+  { key: 'starDensity', label: 'Stars', min: 0, max: 1.5, step: 0.1, format: (v) => `${Math.round(v * 100)}%` },
+  { key: 'trailLength', label: 'Trails', min: 0, max: 40, step: 1, format: (v) => (v === 0 ? 'Off' : String(v)) },
+  { key: 'pixelRatio', label: 'Pixel ratio', min: 0.5, max: 2, step: 0.25, format: (v) => `${v}×` }
+];
+
+// Graphics quality: automatic (holds a target frame rate by stepping through the presets) or
+// hand-tuned. Everything here is remembered in localStorage.
+export function SettingsPanel() {
+  const auto = useSettingsStore((state) => state.auto);
+  const targetFps = useSettingsStore((state) => state.targetFps);
+  const autoLevel = useSettingsStore((state) => state.autoLevel);
+  const setAuto = useSettingsStore((state) => state.setAuto);
+  const setTargetFps = useSettingsStore((state) => state.setTargetFps);
+  const setManual = useSettingsStore((state) => state.setManual);
+  const settings = useGraphicsSettings();
+
+  const [open, setOpen] = useState(false);
+
+  // Switching to manual starts from whatever automatic mode had settled on
+  const toggleAuto = () => {
+    if (auto) {
+      setManual(settings);
+    }
+    setAuto(!auto);
+  };
+
+  return (
+    <div className="w-64 bg-white/10 backdrop-blur-md rounded-2xl border border-white/10 shadow-lg">
+      <button className="w-full flex items-center gap-2 px-4 py-3" onClick={() => setOpen((o) => !o)}>
+        <Settings size={16} className="text-gray-300" />
+        <span className="text-sm font-medium">Graphics</span>
+        {auto && <span className="text-[11px] text-gray-400">Auto · {QUALITY_PRESETS[autoLevel].name}</span>}
+        <span className="ml-auto text-gray-400">{open ? <ChevronUp size={14} /> : <ChevronDown size={14} />}</span>
+      </button>
+
+      {open && (
+        <div className="px-4 pb-3 space-y-3 text-xs">
+          <div className="flex items-center gap-2">
+            <label className="flex items-center gap-2 text-gray-300">
+              <input type="checkbox" checked={auto} onChange={toggleAuto} className="accent-cyan-400" />
+              Automatic
+            </label>
+            <div className="ml-auto flex gap-1">
+              {TARGET_FPS_OPTIONS.map((fps) => (
+                <button
+                  key={fps}
+                  className={`rounded-md px-1.5 py-1 tabular-nums transition-colors disabled:opacity-40 ${
+                    fps === targetFps ? 'bg-white/20 text-white' : 'text-gray-400 hover:bg-white/10'
+                  }`}
+                  onClick={() => setTargetFps(fps)}
+                  disabled={!auto}
+                >
+                  {fps} fps
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {!auto && (
+            <div className="flex gap-1">
+              {QUALITY_PRESETS.map((preset) => (
+                <button
+                  key={preset.name}
+                  className="flex-1 rounded-md px-1.5 py-1 text-[10px] uppercase tracking-wider text-gray-400 hover:bg-white/10 transition-colors"
+                  onClick={() => setManual(preset.settings)}
+                >
+                  {preset.name}
+                </button>
+              ))}
+            </div>
+          )}
+
+          <label className="flex items-center gap-2 text-gray-300">
+            <input
+              type="checkbox"
+              checked={settings.bloom}
+              onChange={(e) => setManual({ bloom: e.target.checked })}
+              disabled={auto}
+              className="accent-cyan-400"
+            />
+            Bloom
+          </label>
+
+          {SLIDERS.map((slider) => (
+            <div key={slider.key} className="space-y-0.5">
+              <div className="flex justify-between text-gray-400">
+                <span>{slider.label}</span>
+                <span className="tabular-nums text-gray-200">{slider.format(settings[slider.key])}</span>
+              </div>
+              <input
+                type="range"
+                min={slider.min}
+                max={slider.max}
+                step={slider.step}
+                value={settings[slider.key]}
+                onChange={(e) => setManual({ [slider.key]: Number(e.target.value) })}
+                disabled={auto || (slider.key === 'bloomIntensity' && !settings.bloom)}
+                className="w-full accent-cyan-400 disabled:opacity-40"
+              />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -21,13 +21,17 @@ export function Territories() {
   );
 }
 
+const CAPTURE_BURST_MS = 900;
+
 function TerritoryNode({ territory }: { territory: Territory }) {
   const color = territory.controllingColor || '#444444';
   const points = territory.points;
   const isCaptured = points >= 100;
+  const burstAt = useGameStore((state) => state.captureBursts[territory.id]?.at);
   
   const meshRef = useRef<THREE.Mesh>(null);
   const ringRef = useRef<THREE.Mesh>(null);
+  const burstRef = useRef<THREE.Mesh>(null);
 
   useFrame((state, delta) => {
     if (meshRef.current) {
@@ -37,6 +41,16 @@ function TerritoryNode({ territory }: { territory: Territory }) {
     if (ringRef.current) {
       ringRef.current.rotation.z -= delta * 0.3;
     }
+    // Capture burst: a shockwave in the new owner's color rolling out from the ring
+    if (burstRef.current) {
+      const progress = burstAt !== undefined ? (Date.now() - burstAt) / CAPTURE_BURST_MS : 1;
+      burstRef.current.visible = progress < 1;
+      if (progress < 1) {
+        const scale = territory.radius * (1 + progress * 1.5);
+        burstRef.current.scale.set(scale, scale, scale);
+        (burstRef.current.material as THREE.MeshBasicMaterial).opacity = (1 - progress) * 0.9;
+      }
+    }
   });
 
   return (
@@ -65,6 +79,11 @@ function TerritoryNode({ territory }: { territory: Territory }) {
         />
       </mesh>
 
+      <mesh ref={burstRef} visible={false}>
+        <ringGeometry args={[0.85, 1, 64]} />
+        <meshBasicMaterial color={color} side={THREE.DoubleSide} transparent opacity={0} blending={THREE.AdditiveBlending} depthWrite={false} />
+      </mesh>
+
       {/* Capture Progress Text */}
       <Text
         position={[0, territory.radius + 1, 0]}
@@ -77,6 +96,20 @@ function TerritoryNode({ territory }: { territory: Territory }) {
       >
         {Math.floor(points)}%
       </Text>
+
+      {territory.weight !== 1 && (
+        <Text
+          position={[0, -territory.radius - 0.8, 0]}
+          fontSize={0.6}
+          color="#fcd34d"
+          anchorX="center"
+          anchorY="middle"
+          outlineWidth={0.04}
+          outlineColor="#000000"
+        >
+          ×{territory.weight}
+        </Text>
+      )}
     </group>
   );
 }
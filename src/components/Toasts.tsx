@@ -0,0 +1,46 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { AlertTriangle, Flag, LogIn, LogOut, X, type LucideIcon } from 'lucide-react';
+import { useToastStore, type ToastKind } from '../store/useToastStore';
+
+const TOAST_ICONS: Record<ToastKind, LucideIcon> = {
+  warning: AlertTriangle,
+  join: LogIn,
+  leave: LogOut,
+  capture: Flag
+};
+
+// Short notices along the bottom of the screen: why an action didn't go through, and what
+// everyone else is up to
+export function Toasts() {
+  const toasts = useToastStore((state) => state.toasts);
+  const dismissToast = useToastStore((state) => state.dismissToast);
+
+  return (
+    <div className="absolute bottom-6 left-1/2 -translate-x-1/2 z-20 flex flex-col items-center gap-2 pointer-events-none">
+      {toasts.map((toast) => {
+        const Icon = TOAST_ICONS[toast.kind];
+        const warning = toast.kind === 'warning';
+        return (
+          <div
+            key={toast.id}
+            className={`pointer-events-auto flex items-center gap-2 rounded-xl border px-3 py-2 text-sm backdrop-blur-md shadow-lg ${
+              warning ? 'border-amber-400/30 bg-amber-950/60 text-amber-100' : 'border-white/15 bg-black/60 text-gray-200'
+            }`}
+          >
+            <Icon size={14} className={warning ? 'text-amber-300' : undefined} style={toast.color ? { color: toast.color } : undefined} />
+            <span>{toast.message}</span>
+            {toast.count > 1 && <span className="text-xs tabular-nums text-gray-400">×{toast.count}</span>}
+            <button className="ml-1 text-gray-500 hover:text-gray-200" onClick={() => dismissToast(toast.id)}>
+              <X size={12} />
+            </button>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,23 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { StepInput } from './simulation';
+
+// Between Particles.tsx and the particle worker. The output buffers go back and forth as
+// transferables, so each side only touches them while it holds them.
+
+export type ParticleWorkerRequest =
+  | { type: 'init'; capacity: number }
+  | { type: 'step'; input: StepInput; matrices: Float32Array; colors: Float32Array };
+
+export interface ParticleWorkerFrame {
+  type: 'frame';
+  count: number; // instances written, from the front of each buffer
+  alive: number; // how many of them are live particles
+  matrices: Float32Array;
+  colors: Float32Array;
+  // Local player's particle hits per territory, flushed every HIT_BATCH_SECONDS; null in between
+  hits: Record<string, number> | null;
+}
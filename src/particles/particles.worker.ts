@@ -0,0 +1,46 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { ParticleWorkerFrame, ParticleWorkerRequest } from './messages';
+import { ParticleSimulation } from './simulation';
+
+// Territory hits are summed over this long before going back to the page (and on to the server)
+const HIT_BATCH_SECONDS = 0.1;
+
+let simulation: ParticleSimulation | null = null;
+let pendingHits: Record<string, number> = {};
+let sinceHitFlush = 0;
+
+addEventListener('message', (event: MessageEvent<ParticleWorkerRequest>) => {
+  const request = event.data;
+  if (request.type === 'init') {
+    simulation = new ParticleSimulation(request.capacity);
+    return;
+  }
+  if (!simulation) {
+    return;
+  }
+
+  const hits = simulation.step(request.input, request.matrices, request.colors);
+  for (const [territoryId, count] of Object.entries(hits)) {
+    pendingHits[territoryId] = (pendingHits[territoryId] ?? 0) + count;
+  }
+  sinceHitFlush += request.input.delta;
+
+  const frame: ParticleWorkerFrame = {
+    type: 'frame',
+    count: Math.min(simulation.capacity, request.input.budget),
+    alive: simulation.aliveCount,
+    matrices: request.matrices,
+    colors: request.colors,
+    hits: null
+  };
+  if (sinceHitFlush >= HIT_BATCH_SECONDS) {
+    frame.hits = pendingHits;
+    pendingHits = {};
+    sinceHitFlush = 0;
+  }
+  postMessage(frame, { transfer: [request.matrices.buffer, request.colors.buffer] });
+});
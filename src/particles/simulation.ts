@@ -0,0 +1,280 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import * as THREE from 'three';
+import { PARTICLE_FORCES, type ForceParticle, type ForceSource } from '../abilities/forces';
+import type { AbilityType, ArenaBounds, MapCircle, Vector3 } from '../shared/protocol';
+import { createCurlNoise, type CurlFunction } from '../utils/curlNoise';
+
+export const PARTICLE_LIFETIME = 3.0; // seconds
+// Floats per particle in the output buffers
+export const MATRIX_STRIDE = 16;
+export const COLOR_STRIDE = 3;
+
+// A cursor spraying particles: the local player's (`mine`, so its hits count) or someone else's
+export interface ParticleEmitter {
+  position: Vector3;
+  color: string;
+  ratePerSecond: number;
+  mine: boolean;
+}
+
+export interface SimulationForce {
+  id: string;
+  type: AbilityType;
+  position: Vector3;
+  angle: number;
+  radius: number;
+}
+
+export interface SimulationTerritory {
+  id: string;
+  position: Vector3;
+  radius: number;
+}
+
+export interface SimulationArena {
+  bounds: ArenaBounds;
+  obstacles: MapCircle[];
+}
+
+export interface StepInput {
+  delta: number; // seconds
+  budget: number; // particles in use, at most `capacity`; the rest stay dead
+  // What each of the local player's particle hits counts for. Lower spawn rates send fewer
+  // particles, each worth more, so graphics settings don't change how fast anyone captures.
+  hitWeight: number;
+  emitters: ParticleEmitter[];
+  forces: SimulationForce[];
+  territories: SimulationTerritory[];
+  arena: SimulationArena | null;
+  flowSeed: number;
+  flowSeconds: number;
+}
+
+const EMBER_COLOR = new THREE.Color('#ff3300');
+const UP = new THREE.Vector3(0, 1, 0);
+const SPAWN_SPREAD = 1.5;
+const SPAWN_SPEED = 2.0;
+
+/**
+ * Every particle's state in flat typed arrays, stepped a frame at a time without allocating.
+ * Each step writes an instance matrix and a color for each of the first `budget` particles into
+ * the caller's buffers (zero scale for dead ones) and reports how many of the local player's
+ * particles hit each territory. Runs in the particle worker.
+ */
+export class ParticleSimulation {
+  readonly capacity: number;
+
+  private positions: Float32Array;
+  private velocities: Float32Array;
+  private baseColors: Float32Array;
+  private life: Float32Array;
+  private mine: Uint8Array;
+  private spawnIndex = 0;
+  private budget: number;
+  // Particles still alive after the last step
+  private alive = 0;
+
+  private curl: CurlFunction | null = null;
+  private curlSeed: number | null = null;
+  // Ids of one-shot force fields (pulses) that have already been applied
+  private appliedOnce = new Set<string>();
+
+  // Scratch objects reused for every particle
+  private particle: ForceParticle = { position: new THREE.Vector3(), velocity: new THREE.Vector3(), baseColor: new THREE.Color() };
+  private curlVector = new THREE.Vector3();
+  private color = new THREE.Color();
+  private emitterColor = new THREE.Color();
+  private quaternion = new THREE.Quaternion();
+  private scale = new THREE.Vector3();
+  private direction = new THREE.Vector3();
+  private matrix = new THREE.Matrix4();
+
+  constructor(capacity: number) {
+    this.capacity = capacity;
+    this.positions = new Float32Array(capacity * 3);
+    this.velocities = new Float32Array(capacity * 3);
+    this.baseColors = new Float32Array(capacity * 3);
+    this.life = new Float32Array(capacity);
+    this.mine = new Uint8Array(capacity);
+    this.budget = capacity;
+  }
+
+  get aliveCount() {
+    return this.alive;
+  }
+
+  // Particles past a shrunk budget die, so they don't reappear if it grows again
+  private setBudget(budget: number) {
+    const next = Math.max(1, Math.min(this.capacity, Math.floor(budget)));
+    if (next < this.budget) {
+      this.life.fill(0, next);
+    }
+    this.budget = next;
+    this.spawnIndex %= next;
+  }
+
+  step(input: StepInput, matrices: Float32Array, colors: Float32Array): Record<string, number> {
+    const { delta } = input;
+    if (this.curlSeed !== input.flowSeed) {
+      this.curl = createCurlNoise(input.flowSeed);
+      this.curlSeed = input.flowSeed;
+    }
+    const curl = this.curl!;
+    this.setBudget(input.budget);
+
+    for (const emitter of input.emitters) {
+      this.spawn(emitter, delta);
+    }
+
+    const sources = input.forces.map((force) => ({
+      type: force.type,
+      id: force.id,
+      source: {
+        position: new THREE.Vector3(force.position.x, force.position.y, force.position.z),
+        angle: force.angle,
+        radius: force.radius
+      } satisfies ForceSource
+    }));
+    const hits: Record<string, number> = {};
+    const p = this.particle;
+    this.alive = 0;
+
+    for (let i = 0; i < this.budget; i++) {
+      const i3 = i * 3;
+      if (this.life[i] <= 0) {
+        matrices.fill(0, i * MATRIX_STRIDE, (i + 1) * MATRIX_STRIDE);
+        continue;
+      }
+
+      this.life[i] -= delta;
+      if (this.life[i] <= 0) {
+        matrices.fill(0, i * MATRIX_STRIDE, (i + 1) * MATRIX_STRIDE);
+        continue;
+      }
+
+      p.position.fromArray(this.positions, i3);
+      p.velocity.fromArray(this.velocities, i3);
+      p.baseColor.fromArray(this.baseColors, i3);
+
+      // Apply curl noise
+      curl(p.position.x * 0.3, p.position.y * 0.3, p.position.z * 0.3, input.flowSeconds, this.curlVector);
+      p.velocity.addScaledVector(this.curlVector, delta * 5.0);
+
+      // Apply force fields
+      for (const { type, id, source } of sources) {
+        const force = PARTICLE_FORCES[type];
+        if (!force.once || !this.appliedOnce.has(id)) {
+          force.apply(p, source, delta);
+        }
+      }
+
+      // Check territory collisions
+      if (this.mine[i]) {
+        for (const t of input.territories) {
+          const dx = p.position.x - t.position.x;
+          const dy = p.position.y - t.position.y;
+          const dz = p.position.z - t.position.z;
+          if (dx * dx + dy * dy + dz * dz < t.radius * t.radius) {
+            hits[t.id] = (hits[t.id] ?? 0) + input.hitWeight;
+            this.life[i] = 0; // kill it
+            break;
+          }
+        }
+      }
+
+      // Damping
+      p.velocity.multiplyScalar(0.96);
+      p.position.addScaledVector(p.velocity, delta);
+
+      if (input.arena) {
+        this.constrainToArena(i, input.arena);
+      }
+
+      if (this.life[i] > 0) {
+        this.alive++;
+      }
+
+      // Color shift based on life
+      const lifeRatio = Math.max(0, this.life[i]) / PARTICLE_LIFETIME;
+      this.color.copy(p.baseColor).lerp(EMBER_COLOR, Math.pow(1 - lifeRatio, 2));
+      this.color.toArray(colors, i * COLOR_STRIDE);
+
+      // Scale down as life decreases, base size is larger for soft blending
+      const speed = p.velocity.length();
+      const size = lifeRatio * 0.08;
+      // Stretch along velocity, clamp to prevent extreme distortion
+      const stretch = Math.min(4, Math.max(1, speed * 0.1));
+      this.scale.set(size, size, size * stretch);
+
+      // Orient along velocity
+      if (speed > 0.01) {
+        this.quaternion.setFromUnitVectors(UP, this.direction.copy(p.velocity).divideScalar(speed));
+      } else {
+        this.quaternion.identity();
+      }
+
+      this.matrix.compose(p.position, this.quaternion, this.scale);
+      this.matrix.toArray(matrices, i * MATRIX_STRIDE);
+
+      p.position.toArray(this.positions, i3);
+      p.velocity.toArray(this.velocities, i3);
+      p.baseColor.toArray(this.baseColors, i3);
+    }
+
+    // One-shot forces have had their frame; forget the ones that are gone
+    this.appliedOnce = new Set(sources.filter(({ type }) => PARTICLE_FORCES[type].once).map(({ id }) => id));
+
+    return hits;
+  }
+
+  // Spawns the emitter's share for this frame, with random rounding so slow frames don't lose any
+  private spawn(emitter: ParticleEmitter, delta: number) {
+    const count = Math.min(this.budget, Math.floor(emitter.ratePerSecond * delta + Math.random()));
+    this.emitterColor.set(emitter.color);
+    for (let n = 0; n < count; n++) {
+      const i = this.spawnIndex;
+      const i3 = i * 3;
+      // Add some random spread
+      this.positions[i3] = emitter.position.x + (Math.random() - 0.5) * SPAWN_SPREAD;
+      this.positions[i3 + 1] = emitter.position.y + (Math.random() - 0.5) * SPAWN_SPREAD;
+      this.positions[i3 + 2] = emitter.position.z + (Math.random() - 0.5) * SPAWN_SPREAD;
+      this.velocities[i3] = (Math.random() - 0.5) * SPAWN_SPEED;
+      this.velocities[i3 + 1] = (Math.random() - 0.5) * SPAWN_SPEED;
+      this.velocities[i3 + 2] = (Math.random() - 0.5) * SPAWN_SPEED;
+      this.emitterColor.toArray(this.baseColors, i3);
+      this.life[i] = PARTICLE_LIFETIME;
+      this.mine[i] = emitter.mine ? 1 : 0;
+      this.spawnIndex = (this.spawnIndex + 1) % this.budget;
+    }
+  }
+
+  // Kills particles that left the arena; obstacles push particles back out to their surface and
+  // bounce them off it
+  private constrainToArena(i: number, arena: SimulationArena) {
+    const { position, velocity } = this.particle;
+    const { bounds } = arena;
+    if (position.x < bounds.minX || position.x > bounds.maxX || position.y < bounds.minY || position.y > bounds.maxY) {
+      this.life[i] = 0; // left the arena
+    }
+    for (const obstacle of arena.obstacles) {
+      const dx = position.x - obstacle.position.x;
+      const dy = position.y - obstacle.position.y;
+      const dist = Math.sqrt(dx * dx + dy * dy);
+      if (dist < obstacle.radius && dist > 0) {
+        const nx = dx / dist;
+        const ny = dy / dist;
+        position.x = obstacle.position.x + nx * obstacle.radius;
+        position.y = obstacle.position.y + ny * obstacle.radius;
+        const along = velocity.x * nx + velocity.y * ny;
+        if (along < 0) {
+          velocity.x -= 2 * along * nx;
+          velocity.y -= 2 * along * ny;
+        }
+      }
+    }
+  }
+}
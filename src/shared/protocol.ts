@@ -0,0 +1,1180 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Wire protocol shared by server.ts and the client store. Every message crossing the
+// WebSocket is described here, together with the validators both sides run on receipt.
+
+export type Vector3 = { x: number; y: number; z: number };
+
+// The server-side half of the ability registry: what each ability costs and how long and far it
+// acts. How it moves particles, how it looks and which key fires it live in src/abilities.
+export const ABILITY_TYPES = ['attractor', 'repulsor', 'vortex', 'barrier', 'pulse'] as const;
+export type AbilityType = (typeof ABILITY_TYPES)[number];
+
+export interface AbilityConfig {
+  energyCost: number;
+  cooldownMs: number;
+  lifetimeMs: number; // how long the force field stays on the board
+  radius: number; // reach of the force (half the length of a barrier)
+}
+
+export type Cooldowns = Record<AbilityType, number>;
+
+export const ABILITY_CONFIG: Record<AbilityType, AbilityConfig> = {
+  attractor: { energyCost: 25, cooldownMs: 1200, lifetimeMs: 10000, radius: 20 },
+  repulsor: { energyCost: 35, cooldownMs: 1800, lifetimeMs: 10000, radius: 20 },
+  vortex: { energyCost: 30, cooldownMs: 2000, lifetimeMs: 8000, radius: 8 },
+  barrier: { energyCost: 30, cooldownMs: 2500, lifetimeMs: 4000, radius: 4 },
+  pulse: { energyCost: 40, cooldownMs: 4000, lifetimeMs: 800, radius: 10 }
+};
+
+// Every ability ready to use
+export function createCooldowns(): Cooldowns {
+  const cooldowns = {} as Cooldowns;
+  for (const type of ABILITY_TYPES) {
+    cooldowns[type] = 0;
+  }
+  return cooldowns;
+}
+
+export const PLAYER_MAX_ENERGY = 100;
+export const PLAYER_REGEN_PER_SECOND = 20;
+export const MAX_ACTIVE_FORCE_FIELDS_PER_PLAYER = 4;
+// Particles a player's cursor sprays per second (80 a frame at 60fps) at full spawn rate. Lower
+// spawn rates weigh each hit up to match, so this is also the most hits a player can land.
+export const PLAYER_PARTICLE_RATE_PER_SECOND = 80 * 60;
+export const MAX_REQUEST_ID_LENGTH = 64;
+
+export const MAX_CHAT_MESSAGE_LENGTH = 200;
+
+// World markers a player drops for their team (for everyone, in free-for-all)
+export const PING_KINDS = ['attack', 'defend'] as const;
+export type PingKind = (typeof PING_KINDS)[number];
+
+// Canned reactions shown over the player's cursor
+export const EMOTES = ['hello', 'gg', 'thanks', 'oops', 'taunt'] as const;
+export type Emote = (typeof EMOTES)[number];
+
+// Every player in a room gets a distinct one of these, so a room holds at most this many players
+export const PLAYER_COLORS = [
+  '#FF3366', '#33CCFF', '#FF9933', '#33FF99',
+  '#CC33FF', '#FFFF33', '#FF3333', '#3333FF',
+  '#FF66CC', '#99FF33', '#33FFFF', '#FFFFFF'
+];
+
+export const MAX_PLAYER_NAME_LENGTH = 20;
+
+export const DEFAULT_ROOM_CODE = 'MAIN';
+
+// ffa: everyone for themselves, each player is their own team (team id = player id)
+// teams: players are split across a fixed set of teams that share territory ownership
+export const GAME_MODES = ['ffa', 'teams'] as const;
+export type GameMode = (typeof GAME_MODES)[number];
+
+export interface Team {
+  id: string;
+  name: string;
+  color: string;
+}
+export const ROOM_CODE_PATTERN = /^[A-Z0-9]{4,12}$/;
+
+// Anything further out than this is not a point in the arena
+const MAX_COORDINATE = 1000;
+
+export interface Player {
+  id: string;
+  name: string;
+  color: string;
+  teamId: string;
+  position: Vector3 | null;
+  // False while the player's slot is held open for them to reconnect
+  connected: boolean;
+  bot?: boolean; // played by the server
+}
+
+export interface PlayerStats {
+  id: string;
+  energy: number;
+  maxEnergy: number;
+  regenPerSecond: number;
+  cooldowns: Cooldowns;
+}
+
+export interface ForceField {
+  id: string;
+  position: Vector3;
+  type: AbilityType;
+  angle: number; // radians from the x axis; only barriers have a direction
+  ownerId: string;
+  createdAt: number;
+  color: string;
+}
+
+export interface Territory {
+  id: string;
+  position: Vector3;
+  radius: number;
+  weight: number; // hold time multiplier
+  points: number; // 0 to 100
+  controllingTeamId: string | null;
+  // Display color of the controlling team (the player's own color in free-for-all)
+  controllingColor: string | null;
+}
+
+// Maps: arena layout, loaded from the JSON files in server/maps and sent in `init`. In the files,
+// territory weights, spawn zones, obstacles and the theme may be left out to get the defaults.
+
+export interface ArenaBounds {
+  minX: number;
+  maxX: number;
+  minY: number;
+  maxY: number;
+}
+
+export interface MapTerritory {
+  id: string;
+  position: Vector3;
+  radius: number;
+  weight: number;
+}
+
+// Obstacles block particles and force fields; spawn zones mark where each team starts out
+// (in team order) and are purely visual
+export interface MapCircle {
+  position: Vector3;
+  radius: number;
+}
+
+export interface MapTheme {
+  background: string;
+  starCount: number;
+  bloomIntensity: number;
+}
+
+export interface GameMap {
+  id: string;
+  name: string;
+  bounds: ArenaBounds;
+  territories: MapTerritory[];
+  spawnZones: MapCircle[];
+  obstacles: MapCircle[];
+  theme: MapTheme;
+}
+
+// Seeds the curl noise that carries particles around, so every client sees the same streams. A new
+// seed is picked for every round; the field drifts over time measured from `epoch` (server time).
+export interface FlowField {
+  seed: number; // 32-bit unsigned
+  epoch: number;
+}
+
+export const DEFAULT_MAP_THEME: MapTheme = {
+  background: '#050510',
+  starCount: 5000,
+  bloomIntensity: 1.5
+};
+
+const MAP_ID_PATTERN = /^[a-z0-9-]{1,32}$/;
+const HEX_COLOR_PATTERN = /^#[0-9A-Fa-f]{6}$/;
+
+export const ACTION_REJECTED_REASONS = [
+  'not_enough_energy',
+  'ability_on_cooldown',
+  'max_active_force_fields_reached',
+  'hit_out_of_range',
+  'hit_budget_exceeded',
+  'match_not_running',
+  'team_switch_locked',
+  'team_full',
+  'invalid_team',
+  'spectators_cannot_act',
+  'out_of_bounds',
+  'rate_limited'
+] as const;
+export type ActionRejectedReason = (typeof ACTION_REJECTED_REASONS)[number];
+
+export const ROOM_REJECTED_REASONS = ['room_not_found', 'room_full'] as const;
+export type RoomRejectedReason = (typeof ROOM_REJECTED_REASONS)[number];
+
+export interface RoomSummary {
+  code: string;
+  playerCount: number;
+  maxPlayers: number;
+  spectatorCount: number;
+  isPrivate: boolean;
+  mode: GameMode;
+  mapId: string;
+  createdAt: number;
+}
+
+export const MATCH_PHASES = ['lobby', 'countdown', 'running', 'ended', 'intermission'] as const;
+export type MatchPhase = (typeof MATCH_PHASES)[number];
+
+export const WIN_CONDITION_TYPES = ['hold_time', 'domination'] as const;
+
+// hold_time: first team to accumulate `targetMs` of territory hold time (summed over territories)
+// domination: first team to hold every territory at once for `targetMs`
+// Either way, the team with the most hold time wins when the round clock runs out.
+export interface WinCondition {
+  type: (typeof WIN_CONDITION_TYPES)[number];
+  targetMs: number;
+}
+
+export interface MatchScore {
+  teamId: string;
+  color: string;
+  holdTimeMs: number;
+  territoriesHeld: number;
+}
+
+export interface MatchState {
+  phase: MatchPhase;
+  round: number;
+  phaseEndsAt: number | null;
+  serverTime: number;
+  roundLengthMs: number;
+  minPlayers: number;
+  winCondition: WinCondition;
+  scores: MatchScore[];
+  winnerTeamId: string | null;
+}
+
+// Persistent stats (REST only). Players are identified across sessions by the profile id
+// their browser generates once and sends with every join.
+
+export const LEADERBOARD_SORTS = ['wins', 'captures', 'hold_time', 'hit_volume', 'abilities_used', 'matches_played'] as const;
+export type LeaderboardSort = (typeof LEADERBOARD_SORTS)[number];
+
+export interface PlayerTotals {
+  id: string; // public id (`getPublicPlayerId`), never the profile id
+  name: string; // most recent display name
+  matchesPlayed: number;
+  wins: number;
+  abilitiesUsed: number;
+  hitVolume: number;
+  captures: number;
+  holdTimeMs: number;
+  firstSeenAt: number;
+  lastSeenAt: number;
+}
+
+export interface MatchSummary {
+  id: number;
+  roomCode: string;
+  mode: GameMode;
+  round: number;
+  winCondition: WinCondition;
+  startedAt: number;
+  endedAt: number;
+  winnerTeamId: string | null;
+  hasReplay: boolean;
+}
+
+export interface MatchParticipant {
+  playerId: string; // the profile id on the server, the public id once served by the API
+  name: string;
+  teamId: string;
+  color: string;
+  won: boolean;
+  abilitiesUsed: number;
+  hitVolume: number;
+  captures: number;
+  holdTimeMs: number;
+}
+
+export interface TerritoryCapture {
+  territoryId: string;
+  playerId: string; // like `MatchParticipant.playerId`
+  teamId: string;
+  previousTeamId: string | null;
+  capturedAt: number;
+}
+
+// Client -> server
+
+export interface CursorMessage {
+  type: 'cursor';
+  position: Vector3;
+}
+
+export interface AddForceMessage {
+  type: 'add_force';
+  position: Vector3;
+  forceType: AbilityType;
+  angle?: number;
+  // Picked by the client; echoed in the `force_added` or `action_rejected` that answers this
+  requestId?: string;
+}
+
+export interface HitTerritoryMessage {
+  type: 'hit_territory';
+  territoryId: string;
+  amount: number;
+}
+
+export interface JoinRoomMessage {
+  type: 'join_room';
+  roomCode: string;
+  resumeToken?: string;
+  name?: string;
+  color?: string;
+  profileId?: string;
+  spectate?: boolean; // watch without taking a player slot
+}
+
+// Only honored in team mode while the match is in its lobby phase
+export interface SwitchTeamMessage {
+  type: 'switch_team';
+  teamId: string;
+}
+
+// `teamOnly` is ignored in free-for-all, where there are no teammates to keep it to
+export interface ChatMessage {
+  type: 'chat';
+  text: string;
+  teamOnly?: boolean;
+}
+
+export interface PingMessage {
+  type: 'ping';
+  position: Vector3;
+  kind: PingKind;
+}
+
+export interface EmoteMessage {
+  type: 'emote';
+  emote: Emote;
+}
+
+export type ClientMessage =
+  | CursorMessage
+  | AddForceMessage
+  | HitTerritoryMessage
+  | JoinRoomMessage
+  | SwitchTeamMessage
+  | ChatMessage
+  | PingMessage
+  | EmoteMessage;
+
+// Server -> client
+
+// Spectators get an id of their own but appear in no player list, and have no color or
+// resume token (there is no slot to hold for them)
+export interface InitMessage {
+  type: 'init';
+  id: string;
+  roomCode: string;
+  spectator: boolean;
+  // Present this (`?resume=` or `join_room.resumeToken`) after a dropped connection to get this player back
+  resumeToken: string | null;
+  color: string | null;
+  spectatorCount: number;
+  mode: GameMode;
+  map: GameMap;
+  flowField: FlowField;
+  teams: Team[]; // empty in free-for-all
+  players: Player[];
+  playerStats: PlayerStats[];
+  forceFields: ForceField[];
+  territories: Territory[];
+  abilityConfig: Record<AbilityType, AbilityConfig>;
+  maxActiveForceFieldsPerPlayer: number;
+}
+
+export interface PlayerJoinedMessage {
+  type: 'player_joined';
+  player: Player;
+}
+
+export interface PlayerLeftMessage {
+  type: 'player_left';
+  id: string;
+}
+
+// A player's team (and with it their color) changed
+export interface PlayerUpdatedMessage {
+  type: 'player_updated';
+  player: Player;
+}
+
+export interface PlayerDisconnectedMessage {
+  type: 'player_disconnected';
+  id: string;
+}
+
+export interface PlayerReconnectedMessage {
+  type: 'player_reconnected';
+  id: string;
+}
+
+export interface SyncMessage {
+  type: 'sync';
+  // Server clock when the tick ran, and the tick's number; clients interpolate cursors on these
+  serverTime: number;
+  tick: number;
+  players: Player[];
+  territories: Territory[];
+  playerStats: PlayerStats[];
+  forceFields?: ForceField[];
+}
+
+// The room moved on to the next map in its rotation; territories follow in the next sync
+export interface MapChangedMessage {
+  type: 'map_changed';
+  map: GameMap;
+}
+
+export interface FlowFieldMessage {
+  type: 'flow_field';
+  flowField: FlowField;
+}
+
+export interface SpectatorCountMessage {
+  type: 'spectator_count';
+  count: number;
+}
+
+export interface ForceAddedMessage {
+  type: 'force_added';
+  force: ForceField;
+  requestId?: string; // the owner's `add_force` request id
+}
+
+// Territory events: who is attacking whom, and who took what from whom. `teamId`s are player ids
+// in free-for-all. Contested notices repeat at most every few seconds per territory.
+export interface TerritoryContestedMessage {
+  type: 'territory_contested';
+  territoryId: string;
+  playerId: string; // the attacker
+  teamId: string;
+  ownerTeamId: string;
+  points: number; // the owner's hold left, 0 to 100
+}
+
+export interface TerritoryCapturedMessage {
+  type: 'territory_captured';
+  territoryId: string;
+  playerId: string;
+  teamId: string;
+  color: string;
+  previousTeamId: string | null; // null if nobody held it
+}
+
+// Sent to everyone just before the matching `territory_captured`, when the territory had an owner
+export interface TerritoryLostMessage {
+  type: 'territory_lost';
+  territoryId: string;
+  teamId: string; // the previous owner
+  playerId: string; // who took it
+  capturingTeamId: string;
+}
+
+// Chat, pings and emotes go only to whoever they're meant for, and are left out of replays.
+// The sender gets theirs back like everyone else.
+export interface ChatPostedMessage {
+  type: 'chat_posted';
+  id: string;
+  playerId: string;
+  name: string;
+  color: string;
+  text: string; // as filtered by the server
+  teamOnly: boolean;
+  sentAt: number;
+}
+
+export interface PingPlacedMessage {
+  type: 'ping_placed';
+  id: string;
+  playerId: string;
+  color: string;
+  position: Vector3;
+  kind: PingKind;
+}
+
+export interface EmotePlayedMessage {
+  type: 'emote_played';
+  playerId: string;
+  emote: Emote;
+}
+
+export interface ActionRejectedMessage {
+  type: 'action_rejected';
+  reason: ActionRejectedReason;
+  territoryId?: string;
+  accepted?: number;
+  requestId?: string; // set when rejecting an `add_force` that had one
+}
+
+export interface RoomRejectedMessage {
+  type: 'room_rejected';
+  roomCode: string;
+  reason: RoomRejectedReason;
+}
+
+export interface MatchStateMessage extends MatchState {
+  type: 'match_state';
+}
+
+export interface ProtocolErrorMessage {
+  type: 'protocol_error';
+  error: string;
+}
+
+export type ServerMessage =
+  | InitMessage
+  | PlayerJoinedMessage
+  | PlayerLeftMessage
+  | PlayerUpdatedMessage
+  | PlayerDisconnectedMessage
+  | PlayerReconnectedMessage
+  | SyncMessage
+  | SpectatorCountMessage
+  | MapChangedMessage
+  | FlowFieldMessage
+  | ForceAddedMessage
+  | TerritoryContestedMessage
+  | TerritoryCapturedMessage
+  | TerritoryLostMessage
+  | ChatPostedMessage
+  | PingPlacedMessage
+  | EmotePlayedMessage
+  | ActionRejectedMessage
+  | RoomRejectedMessage
+  | MatchStateMessage
+  | ProtocolErrorMessage;
+
+// Replays: what a room broadcast during one round, as seen by a viewer without a player of
+// their own. Served gzip'd from `/api/matches/:id/replay`.
+
+export const REPLAY_FORMAT_VERSION = 6;
+
+export interface ReplayEvent {
+  t: number; // ms since the round started
+  message: ServerMessage;
+}
+
+// Timeline markers, so the scrubber can show where territories changed hands
+export interface ReplayCapture {
+  t: number;
+  territoryId: string;
+  teamId: string;
+  color: string;
+}
+
+export interface Replay {
+  version: number;
+  roomCode: string;
+  startedAt: number;
+  durationMs: number;
+  events: ReplayEvent[]; // always starts with an `init` snapshot
+  captures: ReplayCapture[];
+}
+
+export type ParseResult<T> = { ok: true; message: T } | { ok: false; error: string };
+
+// Validation
+
+class ProtocolError extends Error {}
+
+function expect(condition: unknown, error: string): asserts condition {
+  if (!condition) {
+    throw new ProtocolError(error);
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function readRecord(value: unknown, field: string) {
+  expect(isRecord(value), `${field} must be an object`);
+  return value;
+}
+
+function readString(value: unknown, field: string) {
+  expect(typeof value === 'string' && value.length > 0, `${field} must be a non-empty string`);
+  return value;
+}
+
+function readRequestId(value: unknown, field: string) {
+  const requestId = readString(value, field);
+  expect(requestId.length <= MAX_REQUEST_ID_LENGTH, `${field} must be at most ${MAX_REQUEST_ID_LENGTH} characters`);
+  return requestId;
+}
+
+function readRoomCode(value: unknown, field: string) {
+  const code = normalizeRoomCode(value);
+  expect(code !== null, `${field} must be 4-12 letters or digits`);
+  return code;
+}
+
+function readBoolean(value: unknown, field: string) {
+  expect(typeof value === 'boolean', `${field} must be a boolean`);
+  return value;
+}
+
+function readResumeToken(value: unknown, field: string) {
+  const token = normalizeResumeToken(value);
+  expect(token !== null, `${field} must be a string of at most 64 characters`);
+  return token;
+}
+
+function readProfileId(value: unknown, field: string) {
+  const profileId = normalizeProfileId(value);
+  expect(profileId !== null, `${field} must be 8-64 letters, digits or dashes`);
+  return profileId;
+}
+
+function readPlayerName(value: unknown, field: string) {
+  const name = normalizePlayerName(value);
+  expect(name !== null, `${field} must be 1-${MAX_PLAYER_NAME_LENGTH} printable characters`);
+  return name;
+}
+
+function readChatText(value: unknown, field: string) {
+  const text = normalizeChatText(value);
+  expect(text !== null, `${field} must be 1-${MAX_CHAT_MESSAGE_LENGTH} printable characters`);
+  return text;
+}
+
+function readPlayerColor(value: unknown, field: string) {
+  const color = normalizePlayerColor(value);
+  expect(color !== null, `${field} must be one of ${PLAYER_COLORS.join(', ')}`);
+  return color;
+}
+
+function readNumber(value: unknown, field: string) {
+  expect(typeof value === 'number' && Number.isFinite(value), `${field} must be a finite number`);
+  return value;
+}
+
+function readArray<T>(value: unknown, field: string, readItem: (item: unknown, field: string) => T) {
+  expect(Array.isArray(value), `${field} must be an array`);
+  return value.map((item, i) => readItem(item, `${field}[${i}]`));
+}
+
+function readVector3(value: unknown, field: string): Vector3 {
+  const v = readRecord(value, field);
+  const coords = [v.x, v.y, v.z];
+  expect(
+    coords.every((c) => typeof c === 'number' && Number.isFinite(c) && Math.abs(c) <= MAX_COORDINATE),
+    `${field} must have finite x, y and z within ±${MAX_COORDINATE}`
+  );
+  return { x: v.x as number, y: v.y as number, z: v.z as number };
+}
+
+function readOneOf<T extends string>(value: unknown, field: string, options: readonly T[]): T {
+  expect(
+    typeof value === 'string' && (options as readonly string[]).includes(value),
+    `${field} must be one of ${options.join(', ')}`
+  );
+  return value as T;
+}
+
+function readAbilityRecord<T>(value: unknown, field: string, readItem: (item: unknown, field: string) => T) {
+  const v = readRecord(value, field);
+  const result = {} as Record<AbilityType, T>;
+  for (const type of ABILITY_TYPES) {
+    result[type] = readItem(v[type], `${field}.${type}`);
+  }
+  return result;
+}
+
+function readPlayer(value: unknown, field: string): Player {
+  const v = readRecord(value, field);
+  return {
+    id: readString(v.id, `${field}.id`),
+    name: readString(v.name, `${field}.name`),
+    color: readString(v.color, `${field}.color`),
+    teamId: readString(v.teamId, `${field}.teamId`),
+    position: v.position === null ? null : readVector3(v.position, `${field}.position`),
+    connected: readBoolean(v.connected, `${field}.connected`),
+    ...(v.bot !== undefined ? { bot: readBoolean(v.bot, `${field}.bot`) } : {})
+  };
+}
+
+function readPlayerStats(value: unknown, field: string): PlayerStats {
+  const v = readRecord(value, field);
+  return {
+    id: readString(v.id, `${field}.id`),
+    energy: readNumber(v.energy, `${field}.energy`),
+    maxEnergy: readNumber(v.maxEnergy, `${field}.maxEnergy`),
+    regenPerSecond: readNumber(v.regenPerSecond, `${field}.regenPerSecond`),
+    cooldowns: readAbilityRecord(v.cooldowns, `${field}.cooldowns`, readNumber)
+  };
+}
+
+function readForceField(value: unknown, field: string): ForceField {
+  const v = readRecord(value, field);
+  return {
+    id: readString(v.id, `${field}.id`),
+    position: readVector3(v.position, `${field}.position`),
+    type: readOneOf(v.type, `${field}.type`, ABILITY_TYPES),
+    angle: readNumber(v.angle, `${field}.angle`),
+    ownerId: readString(v.ownerId, `${field}.ownerId`),
+    createdAt: readNumber(v.createdAt, `${field}.createdAt`),
+    color: readString(v.color, `${field}.color`)
+  };
+}
+
+function readTerritory(value: unknown, field: string): Territory {
+  const v = readRecord(value, field);
+  return {
+    id: readString(v.id, `${field}.id`),
+    position: readVector3(v.position, `${field}.position`),
+    radius: readNumber(v.radius, `${field}.radius`),
+    weight: readNumber(v.weight, `${field}.weight`),
+    points: readNumber(v.points, `${field}.points`),
+    controllingTeamId: v.controllingTeamId === null ? null : readString(v.controllingTeamId, `${field}.controllingTeamId`),
+    controllingColor: v.controllingColor === null ? null : readString(v.controllingColor, `${field}.controllingColor`)
+  };
+}
+
+function readPositiveNumber(value: unknown, field: string) {
+  const n = readNumber(value, field);
+  expect(n > 0, `${field} must be greater than 0`);
+  return n;
+}
+
+function readMapCircle(value: unknown, field: string): MapCircle {
+  const v = readRecord(value, field);
+  return {
+    position: readVector3(v.position, `${field}.position`),
+    radius: readPositiveNumber(v.radius, `${field}.radius`)
+  };
+}
+
+function isInsideBounds(circle: MapCircle, bounds: ArenaBounds) {
+  const { x, y } = circle.position;
+  return x - circle.radius >= bounds.minX && x + circle.radius <= bounds.maxX
+    && y - circle.radius >= bounds.minY && y + circle.radius <= bounds.maxY;
+}
+
+function circlesOverlap(a: MapCircle, b: MapCircle) {
+  return Math.hypot(a.position.x - b.position.x, a.position.y - b.position.y) < a.radius + b.radius;
+}
+
+function readGameMap(value: unknown, field: string): GameMap {
+  const v = readRecord(value, field);
+  const id = readString(v.id, `${field}.id`);
+  expect(MAP_ID_PATTERN.test(id), `${field}.id must be 1-32 lowercase letters, digits or dashes`);
+
+  const b = readRecord(v.bounds, `${field}.bounds`);
+  const bounds: ArenaBounds = {
+    minX: readNumber(b.minX, `${field}.bounds.minX`),
+    maxX: readNumber(b.maxX, `${field}.bounds.maxX`),
+    minY: readNumber(b.minY, `${field}.bounds.minY`),
+    maxY: readNumber(b.maxY, `${field}.bounds.maxY`)
+  };
+  expect(bounds.minX < bounds.maxX && bounds.minY < bounds.maxY, `${field}.bounds must have min below max`);
+  expect(
+    [bounds.minX, bounds.maxX, bounds.minY, bounds.maxY].every((c) => Math.abs(c) <= MAX_COORDINATE),
+    `${field}.bounds must be within ±${MAX_COORDINATE}`
+  );
+
+  const territories = readArray(v.territories, `${field}.territories`, (item, itemField) => {
+    const t = readRecord(item, itemField);
+    const territory: MapTerritory = {
+      id: readString(t.id, `${itemField}.id`),
+      ...readMapCircle(t, itemField),
+      weight: t.weight === undefined ? 1 : readPositiveNumber(t.weight, `${itemField}.weight`)
+    };
+    expect(isInsideBounds(territory, bounds), `${itemField} must lie inside the arena bounds`);
+    return territory;
+  });
+  expect(territories.length > 0, `${field}.territories must not be empty`);
+  expect(
+    new Set(territories.map((t) => t.id)).size === territories.length,
+    `${field}.territories must have unique ids`
+  );
+
+  const spawnZones = v.spawnZones === undefined ? [] : readArray(v.spawnZones, `${field}.spawnZones`, (item, itemField) => {
+    const zone = readMapCircle(item, itemField);
+    expect(isInsideBounds(zone, bounds), `${itemField} must lie inside the arena bounds`);
+    return zone;
+  });
+
+  const obstacles = v.obstacles === undefined ? [] : readArray(v.obstacles, `${field}.obstacles`, (item, itemField) => {
+    const obstacle = readMapCircle(item, itemField);
+    expect(isInsideBounds(obstacle, bounds), `${itemField} must lie inside the arena bounds`);
+    const blocked = territories.find((t) => circlesOverlap(obstacle, t));
+    expect(!blocked, `${itemField} must not overlap territory ${blocked?.id}`);
+    return obstacle;
+  });
+
+  const t = v.theme === undefined ? {} : readRecord(v.theme, `${field}.theme`);
+  const theme: MapTheme = {
+    background: t.background === undefined ? DEFAULT_MAP_THEME.background : readString(t.background, `${field}.theme.background`),
+    starCount: t.starCount === undefined ? DEFAULT_MAP_THEME.starCount : readNumber(t.starCount, `${field}.theme.starCount`),
+    bloomIntensity: t.bloomIntensity === undefined
+      ? DEFAULT_MAP_THEME.bloomIntensity
+      : readNumber(t.bloomIntensity, `${field}.theme.bloomIntensity`)
+  };
+  expect(HEX_COLOR_PATTERN.test(theme.background), `${field}.theme.background must be a #RRGGBB color`);
+  expect(theme.starCount >= 0 && theme.starCount <= 20000, `${field}.theme.starCount must be 0-20000`);
+
+  return {
+    id,
+    name: readString(v.name, `${field}.name`),
+    bounds,
+    territories,
+    spawnZones,
+    obstacles,
+    theme
+  };
+}
+
+function readFlowField(value: unknown, field: string): FlowField {
+  const v = readRecord(value, field);
+  const seed = readNumber(v.seed, `${field}.seed`);
+  expect(Number.isInteger(seed) && seed >= 0 && seed < 2 ** 32, `${field}.seed must be a 32-bit unsigned integer`);
+  return { seed, epoch: readNumber(v.epoch, `${field}.epoch`) };
+}
+
+function readAbilityConfig(value: unknown, field: string): AbilityConfig {
+  const v = readRecord(value, field);
+  return {
+    energyCost: readNumber(v.energyCost, `${field}.energyCost`),
+    cooldownMs: readNumber(v.cooldownMs, `${field}.cooldownMs`),
+    lifetimeMs: readNumber(v.lifetimeMs, `${field}.lifetimeMs`),
+    radius: readNumber(v.radius, `${field}.radius`)
+  };
+}
+
+function readTeam(value: unknown, field: string): Team {
+  const v = readRecord(value, field);
+  return {
+    id: readString(v.id, `${field}.id`),
+    name: readString(v.name, `${field}.name`),
+    color: readString(v.color, `${field}.color`)
+  };
+}
+
+function readMatchScore(value: unknown, field: string): MatchScore {
+  const v = readRecord(value, field);
+  return {
+    teamId: readString(v.teamId, `${field}.teamId`),
+    color: readString(v.color, `${field}.color`),
+    holdTimeMs: readNumber(v.holdTimeMs, `${field}.holdTimeMs`),
+    territoriesHeld: readNumber(v.territoriesHeld, `${field}.territoriesHeld`)
+  };
+}
+
+function readWinCondition(value: unknown, field: string): WinCondition {
+  const v = readRecord(value, field);
+  return {
+    type: readOneOf(v.type, `${field}.type`, WIN_CONDITION_TYPES),
+    targetMs: readNumber(v.targetMs, `${field}.targetMs`)
+  };
+}
+
+function readClientMessage(data: Record<string, unknown>): ClientMessage {
+  switch (data.type) {
+    case 'cursor':
+      return { type: 'cursor', position: readVector3(data.position, 'position') };
+    case 'add_force':
+      return {
+        type: 'add_force',
+        position: readVector3(data.position, 'position'),
+        forceType: readOneOf(data.forceType, 'forceType', ABILITY_TYPES),
+        ...(data.angle !== undefined ? { angle: readNumber(data.angle, 'angle') } : {}),
+        ...(data.requestId !== undefined ? { requestId: readRequestId(data.requestId, 'requestId') } : {})
+      };
+    case 'hit_territory': {
+      const amount = readNumber(data.amount, 'amount');
+      expect(amount > 0, 'amount must be positive');
+      return { type: 'hit_territory', territoryId: readString(data.territoryId, 'territoryId'), amount };
+    }
+    case 'switch_team':
+      return { type: 'switch_team', teamId: readString(data.teamId, 'teamId') };
+    case 'chat':
+      return {
+        type: 'chat',
+        text: readChatText(data.text, 'text'),
+        ...(data.teamOnly !== undefined ? { teamOnly: readBoolean(data.teamOnly, 'teamOnly') } : {})
+      };
+    case 'ping':
+      return { type: 'ping', position: readVector3(data.position, 'position'), kind: readOneOf(data.kind, 'kind', PING_KINDS) };
+    case 'emote':
+      return { type: 'emote', emote: readOneOf(data.emote, 'emote', EMOTES) };
+    case 'join_room':
+      return {
+        type: 'join_room',
+        roomCode: readRoomCode(data.roomCode, 'roomCode'),
+        ...(data.resumeToken !== undefined ? { resumeToken: readResumeToken(data.resumeToken, 'resumeToken') } : {}),
+        ...(data.name !== undefined ? { name: readPlayerName(data.name, 'name') } : {}),
+        ...(data.color !== undefined ? { color: readPlayerColor(data.color, 'color') } : {}),
+        ...(data.profileId !== undefined ? { profileId: readProfileId(data.profileId, 'profileId') } : {}),
+        ...(data.spectate !== undefined ? { spectate: readBoolean(data.spectate, 'spectate') } : {})
+      };
+    default:
+      throw new ProtocolError(`unknown message type: ${String(data.type)}`);
+  }
+}
+
+function readServerMessage(data: Record<string, unknown>): ServerMessage {
+  switch (data.type) {
+    case 'init':
+      return {
+        type: 'init',
+        id: readString(data.id, 'id'),
+        roomCode: readRoomCode(data.roomCode, 'roomCode'),
+        spectator: readBoolean(data.spectator, 'spectator'),
+        resumeToken: data.resumeToken === null ? null : readResumeToken(data.resumeToken, 'resumeToken'),
+        color: data.color === null ? null : readString(data.color, 'color'),
+        spectatorCount: readNumber(data.spectatorCount, 'spectatorCount'),
+        mode: readOneOf(data.mode, 'mode', GAME_MODES),
+        map: readGameMap(data.map, 'map'),
+        flowField: readFlowField(data.flowField, 'flowField'),
+        teams: readArray(data.teams, 'teams', readTeam),
+        players: readArray(data.players, 'players', readPlayer),
+        playerStats: readArray(data.playerStats, 'playerStats', readPlayerStats),
+        forceFields: readArray(data.forceFields, 'forceFields', readForceField),
+        territories: readArray(data.territories, 'territories', readTerritory),
+        abilityConfig: readAbilityRecord(data.abilityConfig, 'abilityConfig', readAbilityConfig),
+        maxActiveForceFieldsPerPlayer: readNumber(data.maxActiveForceFieldsPerPlayer, 'maxActiveForceFieldsPerPlayer')
+      };
+    case 'player_joined':
+      return { type: 'player_joined', player: readPlayer(data.player, 'player') };
+    case 'player_left':
+      return { type: 'player_left', id: readString(data.id, 'id') };
+    case 'player_updated':
+      return { type: 'player_updated', player: readPlayer(data.player, 'player') };
+    case 'player_disconnected':
+      return { type: 'player_disconnected', id: readString(data.id, 'id') };
+    case 'player_reconnected':
+      return { type: 'player_reconnected', id: readString(data.id, 'id') };
+    case 'sync':
+      return {
+        type: 'sync',
+        serverTime: readNumber(data.serverTime, 'serverTime'),
+        tick: readNumber(data.tick, 'tick'),
+        players: readArray(data.players, 'players', readPlayer),
+        territories: readArray(data.territories, 'territories', readTerritory),
+        playerStats: readArray(data.playerStats, 'playerStats', readPlayerStats),
+        ...(data.forceFields !== undefined
+          ? { forceFields: readArray(data.forceFields, 'forceFields', readForceField) }
+          : {})
+      };
+    case 'map_changed':
+      return { type: 'map_changed', map: readGameMap(data.map, 'map') };
+    case 'flow_field':
+      return { type: 'flow_field', flowField: readFlowField(data.flowField, 'flowField') };
+    case 'spectator_count':
+      return { type: 'spectator_count', count: readNumber(data.count, 'count') };
+    case 'force_added':
+      return {
+        type: 'force_added',
+        force: readForceField(data.force, 'force'),
+        ...(data.requestId !== undefined ? { requestId: readRequestId(data.requestId, 'requestId') } : {})
+      };
+    case 'territory_contested':
+      return {
+        type: 'territory_contested',
+        territoryId: readString(data.territoryId, 'territoryId'),
+        playerId: readString(data.playerId, 'playerId'),
+        teamId: readString(data.teamId, 'teamId'),
+        ownerTeamId: readString(data.ownerTeamId, 'ownerTeamId'),
+        points: readNumber(data.points, 'points')
+      };
+    case 'territory_captured':
+      return {
+        type: 'territory_captured',
+        territoryId: readString(data.territoryId, 'territoryId'),
+        playerId: readString(data.playerId, 'playerId'),
+        teamId: readString(data.teamId, 'teamId'),
+        color: readString(data.color, 'color'),
+        previousTeamId: data.previousTeamId === null ? null : readString(data.previousTeamId, 'previousTeamId')
+      };
+    case 'territory_lost':
+      return {
+        type: 'territory_lost',
+        territoryId: readString(data.territoryId, 'territoryId'),
+        teamId: readString(data.teamId, 'teamId'),
+        playerId: readString(data.playerId, 'playerId'),
+        capturingTeamId: readString(data.capturingTeamId, 'capturingTeamId')
+      };
+    case 'chat_posted':
+      return {
+        type: 'chat_posted',
+        id: readString(data.id, 'id'),
+        playerId: readString(data.playerId, 'playerId'),
+        name: readString(data.name, 'name'),
+        color: readString(data.color, 'color'),
+        text: readString(data.text, 'text'),
+        teamOnly: readBoolean(data.teamOnly, 'teamOnly'),
+        sentAt: readNumber(data.sentAt, 'sentAt')
+      };
+    case 'ping_placed':
+      return {
+        type: 'ping_placed',
+        id: readString(data.id, 'id'),
+        playerId: readString(data.playerId, 'playerId'),
+        color: readString(data.color, 'color'),
+        position: readVector3(data.position, 'position'),
+        kind: readOneOf(data.kind, 'kind', PING_KINDS)
+      };
+    case 'emote_played':
+      return {
+        type: 'emote_played',
+        playerId: readString(data.playerId, 'playerId'),
+        emote: readOneOf(data.emote, 'emote', EMOTES)
+      };
+    case 'action_rejected':
+      return {
+        type: 'action_rejected',
+        reason: readOneOf(data.reason, 'reason', ACTION_REJECTED_REASONS),
+        ...(data.territoryId !== undefined ? { territoryId: readString(data.territoryId, 'territoryId') } : {}),
+        ...(data.accepted !== undefined ? { accepted: readNumber(data.accepted, 'accepted') } : {}),
+        ...(data.requestId !== undefined ? { requestId: readRequestId(data.requestId, 'requestId') } : {})
+      };
+    case 'room_rejected':
+      return {
+        type: 'room_rejected',
+        roomCode: readString(data.roomCode, 'roomCode'),
+        reason: readOneOf(data.reason, 'reason', ROOM_REJECTED_REASONS)
+      };
+    case 'match_state':
+      return {
+        type: 'match_state',
+        phase: readOneOf(data.phase, 'phase', MATCH_PHASES),
+        round: readNumber(data.round, 'round'),
+        phaseEndsAt: data.phaseEndsAt === null ? null : readNumber(data.phaseEndsAt, 'phaseEndsAt'),
+        serverTime: readNumber(data.serverTime, 'serverTime'),
+        roundLengthMs: readNumber(data.roundLengthMs, 'roundLengthMs'),
+        minPlayers: readNumber(data.minPlayers, 'minPlayers'),
+        winCondition: readWinCondition(data.winCondition, 'winCondition'),
+        scores: readArray(data.scores, 'scores', readMatchScore),
+        winnerTeamId: data.winnerTeamId === null ? null : readString(data.winnerTeamId, 'winnerTeamId')
+      };
+    case 'protocol_error':
+      return { type: 'protocol_error', error: readString(data.error, 'error') };
+    default:
+      throw new ProtocolError(`unknown message type: ${String(data.type)}`);
+  }
+}
+
+function parseMessage<T>(raw: string, read: (data: Record<string, unknown>) => T): ParseResult<T> {
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    return { ok: false, error: 'message is not valid JSON' };
+  }
+
+  try {
+    return { ok: true, message: read(readRecord(data, 'message')) };
+  } catch (e) {
+    if (e instanceof ProtocolError) {
+      return { ok: false, error: e.message };
+    }
+    throw e;
+  }
+}
+
+export function parseClientMessage(raw: string): ParseResult<ClientMessage> {
+  return parseMessage(raw, readClientMessage);
+}
+
+// Trims and strips control characters; null if nothing printable is left
+export function normalizePlayerName(value: unknown): string | null {
+  if (typeof value !== 'string') {
+    return null;
+  }
+  const name = value.replace(/[\u0000-\u001F\u007F]/g, '').trim().replace(/\s+/g, ' ');
+  return name.length > 0 && name.length <= MAX_PLAYER_NAME_LENGTH ? name : null;
+}
+
+// Strips control characters and surrounding whitespace; null if nothing is left or it's too long
+export function normalizeChatText(value: unknown): string | null {
+  if (typeof value !== 'string') {
+    return null;
+  }
+  const text = value.replace(/[\u0000-\u001F\u007F]/g, ' ').trim();
+  return text.length > 0 && text.length <= MAX_CHAT_MESSAGE_LENGTH ? text : null;
+}
+
+export function normalizePlayerColor(value: unknown): string | null {
+  if (typeof value !== 'string') {
+    return null;
+  }
+  return PLAYER_COLORS.find((color) => color === value.toUpperCase()) ?? null;
+}
+
+// Resume tokens arrive in the connection URL too, so they get the same sanity check
+export function normalizeResumeToken(value: unknown): string | null {
+  return typeof value === 'string' && value.length > 0 && value.length <= 64 ? value : null;
+}
+
+export function normalizeProfileId(value: unknown): string | null {
+  return typeof value === 'string' && /^[A-Za-z0-9-]{8,64}$/.test(value) ? value : null;
+}
+
+// A profile id is all it takes to play (and record stats) as that player, so it never leaves
+// the server. The stats API names players by this instead: the first 24 hex digits of the
+// SHA-256 of their profile id.
+export function normalizePublicPlayerId(value: unknown): string | null {
+  return typeof value === 'string' && /^[0-9a-f]{24}$/.test(value) ? value : null;
+}
+
+export async function getPublicPlayerId(profileId: string) {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(profileId));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('').slice(0, 24);
+}
+
+// Normalizes a user-supplied room code (query string, REST path), or null if it is not one
+export function normalizeRoomCode(value: unknown): string | null {
+  if (typeof value !== 'string') {
+    return null;
+  }
+  const code = value.trim().toUpperCase();
+  return ROOM_CODE_PATTERN.test(code) ? code : null;
+}
+
+export function parseServerMessage(raw: string): ParseResult<ServerMessage> {
+  return parseMessage(raw, readServerMessage);
+}
+
+function readReplay(data: Record<string, unknown>): Replay {
+  expect(data.version === REPLAY_FORMAT_VERSION, `version must be ${REPLAY_FORMAT_VERSION}`);
+  const events = readArray(data.events, 'events', (value, field) => {
+    const event = readRecord(value, field);
+    return {
+      t: readNumber(event.t, `${field}.t`),
+      message: readServerMessage(readRecord(event.message, `${field}.message`))
+    };
+  });
+  expect(events[0]?.message.type === 'init', 'events must start with an init snapshot');
+  return {
+    version: REPLAY_FORMAT_VERSION,
+    roomCode: readRoomCode(data.roomCode, 'roomCode'),
+    startedAt: readNumber(data.startedAt, 'startedAt'),
+    durationMs: readNumber(data.durationMs, 'durationMs'),
+    events,
+    captures: readArray(data.captures, 'captures', (value, field) => {
+      const capture = readRecord(value, field);
+      return {
+        t: readNumber(capture.t, `${field}.t`),
+        territoryId: readString(capture.territoryId, `${field}.territoryId`),
+        teamId: readString(capture.teamId, `${field}.teamId`),
+        color: readString(capture.color, `${field}.color`)
+      };
+    })
+  };
+}
+
+export function parseReplay(raw: string): ParseResult<Replay> {
+  return parseMessage(raw, readReplay);
+}
+
+// For map files: fills in the optional parts and checks the layout makes sense
+export function parseGameMap(raw: string): ParseResult<GameMap> {
+  return parseMessage(raw, (data) => readGameMap(data, 'map'));
+}
+
+export function isInsideArena(position: Vector3, map: GameMap) {
+  return isInsideBounds({ position, radius: 0 }, map.bounds)
+    && !map.obstacles.some((obstacle) => circlesOverlap({ position, radius: 0 }, obstacle));
+}
@@ -0,0 +1,96 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { ActionRejectedReason, GameMode, Player, ServerMessage, Team, Territory } from '../shared/protocol';
+import { useToastStore } from './useToastStore';
+
+// What the notifications need to know about the game before a message is applied
+export interface NotificationContext {
+  myId: string | null;
+  myTeamId: string | null;
+  mode: GameMode;
+  teams: Team[];
+  players: Record<string, Player>;
+  territories: Record<string, Territory>;
+  maxActiveForceFieldsPerPlayer: number;
+}
+
+// Null for rejections the player didn't cause and can't act on (hit validation trimming reports)
+function describeRejection(reason: ActionRejectedReason, maxActiveForceFields: number): string | null {
+  switch (reason) {
+    case 'not_enough_energy':
+      return 'Not enough energy';
+    case 'ability_on_cooldown':
+      return 'That ability is still cooling down';
+    case 'max_active_force_fields_reached':
+      return `You already have ${maxActiveForceFields} forces out; wait for one to fade`;
+    case 'match_not_running':
+      return 'The round isn\'t running';
+    case 'out_of_bounds':
+      return 'That\'s outside the arena';
+    case 'team_switch_locked':
+      return 'Teams are locked until the round is over';
+    case 'team_full':
+      return 'That team is full';
+    case 'invalid_team':
+      return 'That team doesn\'t exist';
+    case 'spectators_cannot_act':
+      return 'Spectators can only watch';
+    case 'rate_limited':
+      return 'Slow down a little';
+    case 'hit_out_of_range':
+    case 'hit_budget_exceeded':
+      return null;
+  }
+}
+
+export function notifyActionRejected(reason: ActionRejectedReason, maxActiveForceFields: number) {
+  const message = describeRejection(reason, maxActiveForceFields);
+  if (message) {
+    useToastStore.getState().pushToast({ key: `rejected:${reason}`, kind: 'warning', message });
+  }
+}
+
+// A territory owner, by name: the team in team games, the player (who is their own team) otherwise
+export function describeTeam(teamId: string, context: Pick<NotificationContext, 'myTeamId' | 'mode' | 'teams' | 'players'>) {
+  if (context.mode === 'teams') {
+    const team = context.teams.find((t) => t.id === teamId);
+    return teamId === context.myTeamId ? 'Your team' : (team?.name ?? 'Another team');
+  }
+  return teamId === context.myTeamId ? 'You' : (context.players[teamId]?.name ?? 'Someone');
+}
+
+export function describeTerritory(territory: Pick<Territory, 'weight'> | undefined) {
+  return territory && territory.weight > 1 ? `a ×${territory.weight} territory` : 'a territory';
+}
+
+/**
+ * Toasts for a live server message: rejected actions, players coming and going, and territories
+ * changing hands. Call it before the message is applied, while `context` still has the state it
+ * changes (the name of a player who is leaving).
+ */
+export function notifyServerMessage(message: ServerMessage, context: NotificationContext) {
+  const { pushToast } = useToastStore.getState();
+
+  if (message.type === 'action_rejected') {
+    notifyActionRejected(message.reason, context.maxActiveForceFieldsPerPlayer);
+  } else if (message.type === 'player_joined' && message.player.id !== context.myId) {
+    const { player } = message;
+    pushToast({ key: `presence:${player.id}`, kind: 'join', message: `${player.name} joined`, color: player.color });
+  } else if (message.type === 'player_left') {
+    const player = context.players[message.id];
+    if (player) {
+      pushToast({ key: `presence:${player.id}`, kind: 'leave', message: `${player.name} left`, color: player.color });
+    }
+  } else if (message.type === 'territory_captured') {
+    const what = describeTerritory(context.territories[message.territoryId]);
+    const who = describeTeam(message.teamId, context);
+    const text =
+      message.previousTeamId !== null && message.previousTeamId === context.myTeamId
+        ? `${who} took ${what} from you`
+        : `${who} captured ${what}`;
+    pushToast({ key: `capture:${message.territoryId}`, kind: 'capture', message: text, color: message.color });
+  }
+}
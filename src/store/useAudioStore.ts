@@ -0,0 +1,60 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { create } from 'zustand';
+import { readStoredObject } from '../utils/storage';
+
+export interface AudioSettings {
+  master: number; // 0..1, on top of sfx and music
+  sfx: number;
+  music: number; // the ambient bed
+  muted: boolean;
+}
+
+interface AudioState extends AudioSettings {
+  setVolume: (channel: 'master' | 'sfx' | 'music', volume: number) => void;
+  setMuted: (muted: boolean) => void;
+}
+
+const AUDIO_KEY = 'territory-war:audio';
+const DEFAULT_AUDIO: AudioSettings = { master: 0.8, sfx: 0.8, music: 0.5, muted: false };
+
+function readVolume(value: unknown, fallback: number) {
+  return typeof value === 'number' && Number.isFinite(value) ? Math.max(0, Math.min(1, value)) : fallback;
+}
+
+function loadAudioSettings(): AudioSettings {
+  // Volumes are clamped to 0..1; anything else that doesn't check out means the default
+  const stored = readStoredObject(AUDIO_KEY);
+  return {
+    master: readVolume(stored.master, DEFAULT_AUDIO.master),
+    sfx: readVolume(stored.sfx, DEFAULT_AUDIO.sfx),
+    music: readVolume(stored.music, DEFAULT_AUDIO.music),
+    muted: typeof stored.muted === 'boolean' ? stored.muted : DEFAULT_AUDIO.muted
+  };
+}
+
+function saveAudioSettings(state: AudioState) {
+  try {
+    const { master, sfx, music, muted } = state;
+    window.localStorage.setItem(AUDIO_KEY, JSON.stringify({ master, sfx, music, muted }));
+  } catch {
+    // Not being able to remember the settings is harmless
+  }
+}
+
+export const useAudioStore = create<AudioState>((set) => ({
+  ...loadAudioSettings(),
+
+  setVolume: (channel: 'master' | 'sfx' | 'music', volume: number) => {
+    set({ [channel]: readVolume(volume, DEFAULT_AUDIO[channel]) });
+  },
+
+  setMuted: (muted: boolean) => {
+    set({ muted });
+  }
+}));
+
+useAudioStore.subscribe(saveAudioSettings);
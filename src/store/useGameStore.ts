@@ -4,92 +4,310 @@
 */
 
 import { create } from 'zustand';
+import {
+  ABILITY_CONFIG,
+  DEFAULT_ROOM_CODE,
+  MAX_ACTIVE_FORCE_FIELDS_PER_PLAYER,
+  PLAYER_MAX_ENERGY,
+  PLAYER_REGEN_PER_SECOND,
+  createCooldowns,
+  normalizeChatText,
+  normalizePlayerColor,
+  normalizePlayerName,
+  normalizeProfileId,
+  parseServerMessage,
+  type AbilityConfig,
+  type ActionRejectedReason,
+  type AbilityType,
+  type ChatPostedMessage,
+  type ClientMessage,
+  type Cooldowns,
+  type Emote,
+  type FlowField,
+  type ForceField,
+  type GameMap,
+  type GameMode,
+  type MatchState,
+  type PingKind,
+  type Player,
+  type RoomRejectedReason,
+  type ServerMessage,
+  type Team,
+  type Territory,
+  type Vector3
+} from '../shared/protocol';
+import { describeTeam, describeTerritory, notifyServerMessage } from './notifications';
+import { INTERPOLATION_DELAY_MS, pushSnapshot, sampleSnapshots, type PositionSnapshot } from '../utils/interpolation';
+import { readStoredObject } from '../utils/storage';
 
-export type Vector3 = { x: number; y: number; z: number };
-export type AbilityType = 'attractor' | 'repulsor';
+export type {
+  AbilityConfig,
+  AbilityType,
+  Emote,
+  ForceField,
+  GameMap,
+  GameMode,
+  MatchState,
+  PingKind,
+  Player,
+  Team,
+  Territory,
+  Vector3
+};
 
-export interface Player {
-  id: string;
-  color: string;
-  position: Vector3 | null;
+// A force drawn as soon as it's placed, until the server confirms or rejects it
+export interface PendingForce {
+  force: ForceField; // the ghost; its id is the request id
+  // What placing it cost locally, so a rejection can give it back
+  previousCooldown: number;
+  cooldownEndsAt: number;
+  sentAt: number;
 }
 
-export interface ForceField {
+// Where a ghost force was rolled back, shown briefly so the click doesn't just vanish
+export interface Fizzle {
   id: string;
   position: Vector3;
-  type: AbilityType;
-  ownerId: string;
-  createdAt: number;
   color: string;
 }
 
-export interface Territory {
-  id: string;
-  position: Vector3;
-  radius: number;
-  points: number;
-  controllingColor: string | null;
+// One line of the event feed. Names are resolved when it happens, since players come and go.
+export interface FeedEvent {
+  id: number;
+  kind: 'contested' | 'captured' | 'lost';
+  territory: string; // described, e.g. "a ×2 territory"
+  actor: string; // the attacker or capturer
+  actorColor: string;
+  owner: string | null; // who held it before; null if nobody did
+  ownerColor: string | null;
 }
 
-export interface AbilityConfig {
-  energyCost: number;
-  cooldownMs: number;
+// A territory changing hands, kept for its burst animation and capture sound
+export interface CaptureBurst {
+  at: number; // Date.now()
+  teamId: string;
+  previousTeamId: string | null;
+}
+
+export type ChatLine = Omit<ChatPostedMessage, 'type'>;
+
+// A marker someone dropped in the world, shown for PING_DURATION_MS
+export interface Ping {
+  id: string;
+  playerId: string;
+  color: string;
+  position: Vector3;
+  kind: PingKind;
+  at: number; // Date.now()
 }
 
-interface Cooldowns {
-  attractor: number;
-  repulsor: number;
+export interface ActiveEmote {
+  emote: Emote;
+  at: number; // Date.now()
 }
 
 interface GameState {
+  roomCode: string | null;
+  roomError: RoomRejectedReason | null;
   myId: string | null;
   myColor: string | null;
+  myName: string | null;
+  myTeamId: string | null;
+  // Watching instead of playing: asked for before connecting, confirmed by `init`
+  spectating: boolean;
+  spectatorCount: number;
+  // Spectator camera target; null for the free camera
+  followPlayerId: string | null;
+  mode: GameMode;
+  // Arena the room is currently playing; null until the first `init`
+  map: GameMap | null;
+  // Seed and clock for the particle flow field; null until the first `init`
+  flowField: FlowField | null;
+  teams: Team[];
+  // Chosen on the pre-join screen; sent with every join and remembered across visits
+  profileName: string;
+  profileColor: string | null;
+  // Generated once per browser; the server files this player's stats under it
+  profileId: string;
   players: Record<string, Player>;
+  // Recent synced positions of every other player's cursor; draw them with `sampleRemoteCursor`
+  cursorSnapshots: Record<string, PositionSnapshot[]>;
   forceFields: Record<string, ForceField>;
+  // My unconfirmed forces by request id; their cost is already taken off my energy and cooldowns
+  pendingForces: Record<string, PendingForce>;
+  // Confirmed force id -> the request id its ghost was drawn under, so the visual carries on
+  forceVisualKeys: Record<string, string>;
+  fizzles: Record<string, Fizzle>;
+  // Oldest first, at most FEED_LENGTH: every capture, and attacks on (and losses of) my territories
+  feed: FeedEvent[];
+  // Territory id -> when and to whom it last changed hands
+  captureBursts: Record<string, CaptureBurst>;
+  // Someone else's territory my particles last hit, and when
+  attackedTerritory: { id: string; at: number } | null;
+  // Territory id -> Date.now() of its last `territory_contested`; cleared when it changes hands
+  contestedAt: Record<string, number>;
+  // Where I last sent my cursor; null until I move it (and always for spectators)
+  myCursor: Vector3 | null;
+  // Oldest first, at most CHAT_LENGTH lines
+  chat: ChatLine[];
+  pings: Record<string, Ping>;
+  // Player id (mine included) -> the emote over their cursor
+  emotes: Record<string, ActiveEmote>;
   territories: Record<string, Territory>;
   myEnergy: number;
   myMaxEnergy: number;
   myRegenPerSecond: number;
   myCooldowns: Cooldowns;
-  lastActionRejectedReason: string | null;
+  lastActionRejectedReason: ActionRejectedReason | null;
+  match: MatchState | null;
+  // Add to Date.now() to get the server's clock, for match timers and cursor interpolation
+  serverTimeOffset: number;
   abilityConfig: Record<AbilityType, AbilityConfig>;
   maxActiveForceFieldsPerPlayer: number;
   ws: WebSocket | null;
-  connect: () => void;
+  connect: (roomCode?: string | null) => void;
+  // Folds one server message into the state; live messages and replays both come through here
+  applyServerMessage: (data: ServerMessage) => void;
   disconnect: () => void;
+  joinRoom: (roomCode: string) => void;
+  setProfile: (name: string, color: string | null) => void;
+  setSpectating: (spectating: boolean) => void;
+  setFollowPlayer: (playerId: string | null) => void;
+  switchTeam: (teamId: string) => void;
   sendCursor: (position: Vector3) => void;
-  addForce: (position: Vector3, type: AbilityType) => void;
+  addForce: (position: Vector3, type: AbilityType, angle?: number) => void;
+  // `atMs` is server time, like the cooldowns; it defaults to the server's now
   canUseAbility: (type: AbilityType, atMs?: number) => boolean;
+  // Why placing `type` right now would be rejected, as far as the client can tell; null if it wouldn't
+  getAbilityBlockedReason: (type: AbilityType, atMs?: number) => ActionRejectedReason | null;
   getAbilityRemainingCooldownMs: (type: AbilityType, atMs?: number) => number;
   hitTerritory: (territoryId: string, amount: number) => void;
+  sendChat: (text: string, teamOnly: boolean) => void;
+  sendPing: (position: Vector3, kind: PingKind) => void;
+  sendEmote: (emote: Emote) => void;
 }
 
-const DEFAULT_ABILITY_CONFIG: Record<AbilityType, AbilityConfig> = {
-  attractor: { energyCost: 25, cooldownMs: 1200 },
-  repulsor: { energyCost: 35, cooldownMs: 1800 }
-};
+const DEFAULT_COOLDOWNS: Cooldowns = createCooldowns();
 
-const DEFAULT_COOLDOWNS: Cooldowns = {
-  attractor: 0,
-  repulsor: 0
-};
+// Each clock sample after the first only moves the offset this far toward itself, so one slow
+// packet doesn't make timers and remote cursors jump
+const CLOCK_SMOOTHING = 0.1;
+
+// Ghosts the server never answered (the message was lost) are rolled back after this long
+const PENDING_FORCE_TIMEOUT_MS = 3000;
+export const FIZZLE_DURATION_MS = 600;
+const FEED_LENGTH = 30;
+let nextFeedEventId = 1;
+const CHAT_LENGTH = 50;
+export const PING_DURATION_MS = 4000;
+export const EMOTE_DURATION_MS = 3000;
+
+function smoothClockOffset(offset: number, serverTime: number) {
+  return offset + (serverTime - Date.now() - offset) * CLOCK_SMOOTHING;
+}
+
+// Resume tokens live in sessionStorage so a reload in the same tab gets the same player back
+const RESUME_TOKEN_KEY_PREFIX = 'territory-war:resume:';
+
+function loadResumeToken(roomCode: string) {
+  try {
+    return window.sessionStorage.getItem(RESUME_TOKEN_KEY_PREFIX + roomCode);
+  } catch {
+    return null;
+  }
+}
+
+function saveResumeToken(roomCode: string, token: string) {
+  try {
+    window.sessionStorage.setItem(RESUME_TOKEN_KEY_PREFIX + roomCode, token);
+  } catch {
+    // Storage can be unavailable (private mode); resuming then only works within this page load
+  }
+}
+
+const PROFILE_KEY = 'territory-war:profile';
+
+interface Profile {
+  name: string;
+  color: string | null;
+  id: string;
+}
+
+function loadProfile(): Profile {
+  // Each field goes through the same check the server applies; a missing or bad id means a new one
+  const stored = readStoredObject(PROFILE_KEY);
+  const profile: Profile = {
+    name: normalizePlayerName(stored.name) ?? '',
+    color: normalizePlayerColor(stored.color),
+    id: normalizeProfileId(stored.id) ?? crypto.randomUUID()
+  };
+  saveProfile(profile);
+  return profile;
+}
+
+function saveProfile(profile: Profile) {
+  try {
+    window.localStorage.setItem(PROFILE_KEY, JSON.stringify(profile));
+  } catch {
+    // Not being able to remember the profile is harmless
+  }
+}
+
+const initialProfile = loadProfile();
+
+function send(ws: WebSocket | null, message: ClientMessage) {
+  if (ws && ws.readyState === WebSocket.OPEN) {
+    ws.send(JSON.stringify(message));
+    return true;
+  }
+  return false;
+}
 
 export const useGameStore = create<GameState>((set, get) => ({
+  roomCode: null,
+  roomError: null,
   myId: null,
   myColor: null,
+  myName: null,
+  myTeamId: null,
+  spectating: false,
+  spectatorCount: 0,
+  followPlayerId: null,
+  mode: 'ffa',
+  map: null,
+  flowField: null,
+  teams: [],
+  profileName: initialProfile.name,
+  profileColor: initialProfile.color,
+  profileId: initialProfile.id,
   players: {},
+  cursorSnapshots: {},
   forceFields: {},
+  pendingForces: {},
+  forceVisualKeys: {},
+  fizzles: {},
+  feed: [],
+  captureBursts: {},
+  attackedTerritory: null,
+  contestedAt: {},
+  myCursor: null,
+  chat: [],
+  pings: {},
+  emotes: {},
   territories: {},
   myEnergy: 0,
-  myMaxEnergy: 100,
-  myRegenPerSecond: 20,
+  myMaxEnergy: PLAYER_MAX_ENERGY,
+  myRegenPerSecond: PLAYER_REGEN_PER_SECOND,
   myCooldowns: DEFAULT_COOLDOWNS,
   lastActionRejectedReason: null,
-  abilityConfig: DEFAULT_ABILITY_CONFIG,
-  maxActiveForceFieldsPerPlayer: 4,
+  match: null,
+  serverTimeOffset: 0,
+  abilityConfig: ABILITY_CONFIG,
+  maxActiveForceFieldsPerPlayer: MAX_ACTIVE_FORCE_FIELDS_PER_PLAYER,
   ws: null,
 
-  connect: () => {
+  // Without an explicit code this rejoins the last room we were in (or the default room)
+  connect: (roomCode = get().roomCode) => {
     const { ws: currentWs } = get();
     if (currentWs && (currentWs.readyState === WebSocket.CONNECTING || currentWs.readyState === WebSocket.OPEN)) {
       return;
@@ -97,117 +315,345 @@ export const useGameStore = create<GameState>((set, get) => ({
 
     const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
     const host = window.location.host;
-    const ws = new WebSocket(`${protocol}//${host}`);
+    const params = new URLSearchParams();
+    if (roomCode) {
+      params.set('room', roomCode);
+    }
+    const { profileName, profileColor, profileId, spectating } = get();
+    const resumeToken = loadResumeToken(roomCode ?? DEFAULT_ROOM_CODE);
+    if (spectating) {
+      params.set('spectate', '1');
+    } else if (resumeToken) {
+      params.set('resume', resumeToken);
+    }
+    params.set('profile', profileId);
+    if (profileName) {
+      params.set('name', profileName);
+    }
+    if (profileColor) {
+      params.set('color', profileColor);
+    }
+    const query = params.toString();
+    const ws = new WebSocket(`${protocol}//${host}${query ? `/?${query}` : ''}`);
 
     ws.onmessage = (event) => {
-      const data = JSON.parse(event.data);
-
-      if (data.type === 'init') {
-        set({
-          myId: data.id,
-          myColor: data.color,
-          abilityConfig: data.abilityConfig ?? DEFAULT_ABILITY_CONFIG,
-          maxActiveForceFieldsPerPlayer: data.maxActiveForceFieldsPerPlayer ?? 4
-        });
-        const playersMap: Record<string, Player> = {};
-        data.players.forEach((p: Player) => {
-          if (p.id !== data.id) playersMap[p.id] = p;
-        });
+      const parsed = parseServerMessage(event.data);
+      if (parsed.ok === false) {
+        console.error('Invalid server message', parsed.error);
+        return;
+      }
+      const data = parsed.message;
+      if (data.type === 'init' && data.resumeToken) {
+        saveResumeToken(data.roomCode, data.resumeToken);
+      }
+      // Live play only: replays apply messages without toasts
+      notifyServerMessage(data, get());
+      get().applyServerMessage(data);
+    };
 
-        const me = data.players.find((p: any) => p.id === data.id);
+    ws.onclose = () => {
+      // Only auto-reconnect if we didn't intentionally disconnect
+      const { ws: currentWs } = get();
+      if (currentWs === ws) {
+        setTimeout(() => get().connect(), 1000);
+      }
+    };
 
-        const forcesMap: Record<string, ForceField> = {};
-        data.forceFields.forEach((f: ForceField) => {
-          forcesMap[f.id] = f;
-        });
+    set({ ws });
+  },
 
-        const terrMap: Record<string, Territory> = {};
-        if (data.territories) {
-          data.territories.forEach((t: Territory) => {
-            terrMap[t.id] = t;
-          });
-        }
+  applyServerMessage: (data: ServerMessage) => {
+    if (data.type === 'init') {
+      set({
+        roomCode: data.roomCode,
+        roomError: null,
+        myId: data.id,
+        myColor: data.color,
+        myName: data.players.find((p) => p.id === data.id)?.name ?? null,
+        myTeamId: data.players.find((p) => p.id === data.id)?.teamId ?? null,
+        spectating: data.spectator,
+        spectatorCount: data.spectatorCount,
+        followPlayerId: null,
+        mode: data.mode,
+        map: data.map,
+        flowField: data.flowField,
+        teams: data.teams,
+        abilityConfig: data.abilityConfig,
+        maxActiveForceFieldsPerPlayer: data.maxActiveForceFieldsPerPlayer
+      });
+      const playersMap: Record<string, Player> = {};
+      data.players.forEach((p) => {
+        if (p.id !== data.id) playersMap[p.id] = p;
+      });
 
-        set({
-          players: playersMap,
-          forceFields: forcesMap,
-          territories: terrMap,
-          myEnergy: me?.energy ?? 0,
-          myMaxEnergy: me?.maxEnergy ?? 100,
-          myRegenPerSecond: me?.regenPerSecond ?? 20,
-          myCooldowns: me?.cooldowns ?? DEFAULT_COOLDOWNS,
-          lastActionRejectedReason: null
-        });
-      } else if (data.type === 'player_joined') {
+      const me = data.playerStats.find((stats) => stats.id === data.id);
+
+      const forcesMap: Record<string, ForceField> = {};
+      data.forceFields.forEach((f) => {
+        forcesMap[f.id] = f;
+      });
+
+      const terrMap: Record<string, Territory> = {};
+      data.territories.forEach((t) => {
+        terrMap[t.id] = t;
+      });
+
+      set({
+        players: playersMap,
+        cursorSnapshots: {},
+        forceFields: forcesMap,
+        pendingForces: {},
+        forceVisualKeys: {},
+        feed: [],
+        captureBursts: {},
+        attackedTerritory: null,
+        contestedAt: {},
+        chat: [],
+        pings: {},
+        emotes: {},
+        territories: terrMap,
+        myEnergy: me?.energy ?? 0,
+        myMaxEnergy: me?.maxEnergy ?? PLAYER_MAX_ENERGY,
+        myRegenPerSecond: me?.regenPerSecond ?? PLAYER_REGEN_PER_SECOND,
+        myCooldowns: me?.cooldowns ?? DEFAULT_COOLDOWNS,
+        lastActionRejectedReason: null
+      });
+    } else if (data.type === 'player_joined') {
+      set((state) => ({
+        players: { ...state.players, [data.player.id]: data.player }
+      }));
+    } else if (data.type === 'player_left') {
+      set((state) => {
+        const newPlayers = { ...state.players };
+        delete newPlayers[data.id];
+        const newSnapshots = { ...state.cursorSnapshots };
+        delete newSnapshots[data.id];
+        const newEmotes = { ...state.emotes };
+        delete newEmotes[data.id];
+        return {
+          players: newPlayers,
+          cursorSnapshots: newSnapshots,
+          emotes: newEmotes,
+          followPlayerId: state.followPlayerId === data.id ? null : state.followPlayerId
+        };
+      });
+    } else if (data.type === 'player_updated') {
+      if (data.player.id === get().myId) {
+        set({ myColor: data.player.color, myTeamId: data.player.teamId, myName: data.player.name });
+      } else {
         set((state) => ({
-          players: { ...state.players, [data.player.id]: data.player }
+          players: { ...state.players, [data.player.id]: { ...state.players[data.player.id], ...data.player } }
         }));
-      } else if (data.type === 'player_left') {
-        set((state) => {
-          const newPlayers = { ...state.players };
-          delete newPlayers[data.id];
-          return { players: newPlayers };
+      }
+    } else if (data.type === 'player_disconnected' || data.type === 'player_reconnected') {
+      set((state) => {
+        const player = state.players[data.id];
+        if (!player) {
+          return {};
+        }
+        const connected = data.type === 'player_reconnected';
+        const newSnapshots = { ...state.cursorSnapshots };
+        if (!connected) {
+          delete newSnapshots[data.id];
+        }
+        return {
+          players: {
+            ...state.players,
+            [data.id]: { ...player, connected, position: connected ? player.position : null }
+          },
+          cursorSnapshots: newSnapshots
+        };
+      });
+    } else if (data.type === 'sync') {
+      set((state) => {
+        const newPlayers = { ...state.players };
+        const newSnapshots = { ...state.cursorSnapshots };
+        data.players.forEach((p) => {
+          if (p.id !== state.myId) {
+            newPlayers[p.id] = { ...newPlayers[p.id], ...p };
+            if (p.position) {
+              newSnapshots[p.id] = pushSnapshot(newSnapshots[p.id], { serverTime: data.serverTime, position: p.position });
+            }
+          }
         });
-      } else if (data.type === 'sync') {
-        set((state) => {
-          const newPlayers = { ...state.players };
-          data.players.forEach((p: Player) => {
-            if (p.id !== state.myId) {
-              newPlayers[p.id] = { ...newPlayers[p.id], position: p.position };
+
+        let newForces = state.forceFields;
+        let newVisualKeys = state.forceVisualKeys;
+        if (data.forceFields) {
+          newForces = {};
+          newVisualKeys = {};
+          data.forceFields.forEach((f) => {
+            newForces[f.id] = f;
+            if (state.forceVisualKeys[f.id]) {
+              newVisualKeys[f.id] = state.forceVisualKeys[f.id];
             }
           });
+        }
 
-          let newForces = state.forceFields;
-          if (data.forceFields) {
-            newForces = {};
-            data.forceFields.forEach((f: ForceField) => {
-              newForces[f.id] = f;
-            });
-          }
-
-          let newTerritories = state.territories;
-          if (data.territories) {
-            newTerritories = {};
-            data.territories.forEach((t: Territory) => {
-              newTerritories[t.id] = t;
-            });
-          }
+        // Ghosts still waiting: keep their cost applied on top of what the server says, since
+        // this sync may have left before the server saw them
+        const now = Date.now();
+        const expired = Object.keys(state.pendingForces).filter(
+          (requestId) => now - state.pendingForces[requestId].sentAt > PENDING_FORCE_TIMEOUT_MS
+        );
+        const rollback = expired.length > 0 ? rollBackForces(state, expired) : {};
+        const pendingForces = rollback.pendingForces ?? state.pendingForces;
+        const pending = Object.values(pendingForces);
 
-          const myStats = data.playerStats?.find((stats: any) => stats.id === state.myId);
-
-          return {
-            players: newPlayers,
-            forceFields: newForces,
-            territories: newTerritories,
-            ...(myStats
-              ? {
-                  myEnergy: myStats.energy,
-                  myMaxEnergy: myStats.maxEnergy,
-                  myRegenPerSecond: myStats.regenPerSecond,
-                  myCooldowns: myStats.cooldowns
-                }
-              : {})
-          };
+        const newTerritories: Record<string, Territory> = {};
+        data.territories.forEach((t) => {
+          newTerritories[t.id] = t;
         });
-      } else if (data.type === 'force_added') {
+
+        const myStats = data.playerStats.find((stats) => stats.id === state.myId);
+
+        return {
+          ...rollback,
+          players: newPlayers,
+          cursorSnapshots: newSnapshots,
+          forceFields: newForces,
+          forceVisualKeys: newVisualKeys,
+          territories: newTerritories,
+          serverTimeOffset: smoothClockOffset(state.serverTimeOffset, data.serverTime),
+          ...(myStats
+            ? {
+                myEnergy: Math.max(
+                  0,
+                  pending.reduce((energy, { force }) => energy - state.abilityConfig[force.type].energyCost, myStats.energy)
+                ),
+                myMaxEnergy: myStats.maxEnergy,
+                myRegenPerSecond: myStats.regenPerSecond,
+                myCooldowns: pending.reduce(
+                  (cooldowns, { force, cooldownEndsAt }) => ({
+                    ...cooldowns,
+                    [force.type]: Math.max(cooldowns[force.type], cooldownEndsAt)
+                  }),
+                  myStats.cooldowns
+                )
+              }
+            : {})
+        };
+      });
+    } else if (data.type === 'territory_contested') {
+      set((state) => ({ contestedAt: { ...state.contestedAt, [data.territoryId]: Date.now() } }));
+      // Only attacks on my own territories make the feed
+      if (data.ownerTeamId === get().myTeamId) {
         set((state) => ({
-          forceFields: { ...state.forceFields, [data.force.id]: data.force },
-          lastActionRejectedReason: null
+          feed: appendFeedEvent(state.feed, {
+            kind: 'contested',
+            territory: describeTerritory(state.territories[data.territoryId]),
+            ...describeActor(data.playerId, state),
+            owner: describeTeam(data.ownerTeamId, state),
+            ownerColor: getTeamColor(data.ownerTeamId, state)
+          })
         }));
-      } else if (data.type === 'action_rejected') {
-        set({ lastActionRejectedReason: data.reason ?? 'rejected' });
       }
-    };
-
-    ws.onclose = () => {
-      // Only auto-reconnect if we didn't intentionally disconnect
-      const { ws: currentWs } = get();
-      if (currentWs === ws) {
-        setTimeout(() => get().connect(), 1000);
+    } else if (data.type === 'territory_lost') {
+      if (data.teamId === get().myTeamId) {
+        set((state) => ({
+          feed: appendFeedEvent(state.feed, {
+            kind: 'lost',
+            territory: describeTerritory(state.territories[data.territoryId]),
+            ...describeActor(data.playerId, state),
+            owner: describeTeam(data.teamId, state),
+            ownerColor: getTeamColor(data.teamId, state)
+          })
+        }));
       }
-    };
-
-    set({ ws });
+    } else if (data.type === 'territory_captured') {
+      set((state) => {
+        const contestedAt = { ...state.contestedAt };
+        delete contestedAt[data.territoryId];
+        return {
+          contestedAt,
+          captureBursts: {
+            ...state.captureBursts,
+            [data.territoryId]: { at: Date.now(), teamId: data.teamId, previousTeamId: data.previousTeamId }
+          },
+          // Losing one of mine is already in the feed as `lost`
+          ...(data.previousTeamId === null || data.previousTeamId !== state.myTeamId
+            ? {
+                feed: appendFeedEvent(state.feed, {
+                  kind: 'captured',
+                  territory: describeTerritory(state.territories[data.territoryId]),
+                  actor: describeActor(data.playerId, state).actor,
+                  actorColor: data.color,
+                  owner: data.previousTeamId !== null ? describeTeam(data.previousTeamId, state) : null,
+                  ownerColor: data.previousTeamId !== null ? getTeamColor(data.previousTeamId, state) : null
+                })
+              }
+            : {})
+        };
+      });
+    } else if (data.type === 'chat_posted') {
+      const { type, ...line } = data;
+      set((state) => ({ chat: [...state.chat, line].slice(-CHAT_LENGTH) }));
+    } else if (data.type === 'ping_placed') {
+      const { type, ...ping } = data;
+      set((state) => ({ pings: { ...state.pings, [ping.id]: { ...ping, at: Date.now() } } }));
+      setTimeout(() => {
+        useGameStore.setState((current) => {
+          const remaining = { ...current.pings };
+          delete remaining[ping.id];
+          return { pings: remaining };
+        });
+      }, PING_DURATION_MS);
+    } else if (data.type === 'emote_played') {
+      const emote: ActiveEmote = { emote: data.emote, at: Date.now() };
+      set((state) => ({ emotes: { ...state.emotes, [data.playerId]: emote } }));
+      // Unless a newer emote has replaced it by then
+      setTimeout(() => {
+        useGameStore.setState((current) => {
+          if (current.emotes[data.playerId] !== emote) {
+            return {};
+          }
+          const remaining = { ...current.emotes };
+          delete remaining[data.playerId];
+          return { emotes: remaining };
+        });
+      }, EMOTE_DURATION_MS);
+    } else if (data.type === 'map_changed') {
+      set({ map: data.map, captureBursts: {}, contestedAt: {} });
+    } else if (data.type === 'flow_field') {
+      set({ flowField: data.flowField });
+    } else if (data.type === 'spectator_count') {
+      set({ spectatorCount: data.count });
+    } else if (data.type === 'force_added') {
+      set((state) => {
+        const { requestId } = data;
+        if (!requestId || !state.pendingForces[requestId]) {
+          return { forceFields: { ...state.forceFields, [data.force.id]: data.force }, lastActionRejectedReason: null };
+        }
+        // Our ghost was confirmed: the real force takes over its visual
+        const pendingForces = { ...state.pendingForces };
+        delete pendingForces[requestId];
+        return {
+          forceFields: { ...state.forceFields, [data.force.id]: data.force },
+          forceVisualKeys: { ...state.forceVisualKeys, [data.force.id]: requestId },
+          pendingForces,
+          lastActionRejectedReason: null
+        };
+      });
+    } else if (data.type === 'action_rejected') {
+      const { requestId } = data;
+      set((state) => ({
+        lastActionRejectedReason: data.reason,
+        ...(requestId && state.pendingForces[requestId] ? rollBackForces(state, [requestId]) : {})
+      }));
+    } else if (data.type === 'match_state') {
+      const { type, ...match } = data;
+      // The first match state after connecting sets the clock outright
+      set((state) => ({
+        match,
+        serverTimeOffset: state.match
+          ? smoothClockOffset(state.serverTimeOffset, match.serverTime)
+          : match.serverTime - Date.now()
+      }));
+    } else if (data.type === 'room_rejected') {
+      set({ roomError: data.reason });
+    } else if (data.type === 'protocol_error') {
+      console.error('Server rejected message', data.error);
+    }
   },
 
   disconnect: () => {
@@ -217,49 +663,211 @@ export const useGameStore = create<GameState>((set, get) => ({
       set({
         ws: null,
         players: {},
+        cursorSnapshots: {},
         forceFields: {},
+        pendingForces: {},
+        forceVisualKeys: {},
+        pings: {},
+        emotes: {},
         territories: {},
         myEnergy: 0,
-        myMaxEnergy: 100,
-        myRegenPerSecond: 20,
+        myMaxEnergy: PLAYER_MAX_ENERGY,
+        myRegenPerSecond: PLAYER_REGEN_PER_SECOND,
         myCooldowns: DEFAULT_COOLDOWNS,
-        lastActionRejectedReason: null
+        lastActionRejectedReason: null,
+        match: null
       });
     }
   },
 
+  joinRoom: (roomCode: string) => {
+    set({ roomError: null });
+    const { profileName, profileColor, profileId, spectating } = get();
+    const resumeToken = loadResumeToken(roomCode);
+    send(get().ws, {
+      type: 'join_room',
+      roomCode,
+      profileId,
+      ...(spectating ? { spectate: true } : resumeToken ? { resumeToken } : {}),
+      ...(profileName ? { name: profileName } : {}),
+      ...(profileColor ? { color: profileColor } : {})
+    });
+  },
+
+  switchTeam: (teamId: string) => {
+    send(get().ws, { type: 'switch_team', teamId });
+  },
+
+  setProfile: (name: string, color: string | null) => {
+    const profileName = normalizePlayerName(name) ?? '';
+    const profileColor = normalizePlayerColor(color);
+    saveProfile({ name: profileName, color: profileColor, id: get().profileId });
+    set({ profileName, profileColor });
+  },
+
+  setSpectating: (spectating: boolean) => {
+    set({ spectating });
+  },
+
+  setFollowPlayer: (playerId: string | null) => {
+    set({ followPlayerId: playerId });
+  },
+
+  // Spectators have nothing to send; the server would reject it anyway
   sendCursor: (position: Vector3) => {
-    const { ws } = get();
-    if (ws && ws.readyState === WebSocket.OPEN) {
-      ws.send(JSON.stringify({ type: 'cursor', position }));
+    if (!get().spectating) {
+      send(get().ws, { type: 'cursor', position });
+      set({ myCursor: position });
     }
   },
 
-  addForce: (position: Vector3, type: AbilityType) => {
-    const { ws, myColor } = get();
-    if (ws && ws.readyState === WebSocket.OPEN) {
-      ws.send(JSON.stringify({ type: 'add_force', position, forceType: type, color: myColor }));
+  // Shows the force right away as a ghost and takes its cost off locally; the server's answer
+  // either swaps in the real force or rolls the ghost back
+  addForce: (position: Vector3, type: AbilityType, angle?: number) => {
+    const { spectating, ws, myId, myColor, abilityConfig, serverTimeOffset } = get();
+    if (spectating || !myId || !myColor) {
+      return;
+    }
+    const requestId = crypto.randomUUID();
+    const sent = send(ws, {
+      type: 'add_force',
+      position,
+      forceType: type,
+      requestId,
+      ...(angle !== undefined ? { angle } : {})
+    });
+    if (!sent) {
+      return;
     }
+
+    const config = abilityConfig[type];
+    const now = Date.now();
+    // Cooldowns are kept in server time, like the ones the server sends
+    const cooldownEndsAt = now + serverTimeOffset + config.cooldownMs;
+    set((state) => ({
+      pendingForces: {
+        ...state.pendingForces,
+        [requestId]: {
+          force: { id: requestId, position, type, angle: angle ?? 0, ownerId: myId, createdAt: now + serverTimeOffset, color: myColor },
+          previousCooldown: state.myCooldowns[type],
+          cooldownEndsAt,
+          sentAt: now
+        }
+      },
+      myEnergy: Math.max(0, state.myEnergy - config.energyCost),
+      myCooldowns: { ...state.myCooldowns, [type]: cooldownEndsAt }
+    }));
+  },
+
+  canUseAbility: (type: AbilityType, atMs = Date.now() + get().serverTimeOffset) => {
+    return get().getAbilityBlockedReason(type, atMs) === null;
   },
 
-  canUseAbility: (type: AbilityType, atMs = Date.now()) => {
-    const { myEnergy, myCooldowns, abilityConfig } = get();
+  getAbilityBlockedReason: (type: AbilityType, atMs = Date.now() + get().serverTimeOffset) => {
+    const { myId, myEnergy, myCooldowns, abilityConfig, spectating, forceFields, pendingForces, maxActiveForceFieldsPerPlayer } = get();
     const config = abilityConfig[type];
-    if (!config) {
-      return false;
+    if (spectating) {
+      return 'spectators_cannot_act';
     }
-    return myEnergy >= config.energyCost && myCooldowns[type] <= atMs;
+    if (myEnergy < config.energyCost) {
+      return 'not_enough_energy';
+    }
+    if (myCooldowns[type] > atMs) {
+      return 'ability_on_cooldown';
+    }
+    const activeForceCount =
+      Object.values(forceFields).filter((force) => force.ownerId === myId).length + Object.keys(pendingForces).length;
+    if (activeForceCount >= maxActiveForceFieldsPerPlayer) {
+      return 'max_active_force_fields_reached';
+    }
+    return null;
   },
 
-  getAbilityRemainingCooldownMs: (type: AbilityType, atMs = Date.now()) => {
+  getAbilityRemainingCooldownMs: (type: AbilityType, atMs = Date.now() + get().serverTimeOffset) => {
     const { myCooldowns } = get();
     return Math.max(0, myCooldowns[type] - atMs);
   },
 
   hitTerritory: (territoryId: string, amount: number) => {
-    const { ws } = get();
-    if (ws && ws.readyState === WebSocket.OPEN) {
-      ws.send(JSON.stringify({ type: 'hit_territory', territoryId, amount }));
+    const { spectating, territories, myTeamId } = get();
+    if (!spectating) {
+      send(get().ws, { type: 'hit_territory', territoryId, amount });
+      if (territories[territoryId] && territories[territoryId].controllingTeamId !== myTeamId) {
+        set({ attackedTerritory: { id: territoryId, at: Date.now() } });
+      }
+    }
+  },
+
+  // Chat, pings and emotes only show once the server sends them back (filtered, to the right people)
+  sendChat: (text: string, teamOnly: boolean) => {
+    const normalized = normalizeChatText(text);
+    if (normalized && !get().spectating) {
+      send(get().ws, { type: 'chat', text: normalized, ...(teamOnly ? { teamOnly } : {}) });
+    }
+  },
+
+  sendPing: (position: Vector3, kind: PingKind) => {
+    if (!get().spectating) {
+      send(get().ws, { type: 'ping', position, kind });
+    }
+  },
+
+  sendEmote: (emote: Emote) => {
+    if (!get().spectating) {
+      send(get().ws, { type: 'emote', emote });
     }
   }
 }));
+
+function appendFeedEvent(feed: FeedEvent[], event: Omit<FeedEvent, 'id'>) {
+  return [...feed, { ...event, id: nextFeedEventId++ }].slice(-FEED_LENGTH);
+}
+
+function describeActor(playerId: string, state: GameState) {
+  if (playerId === state.myId) {
+    return { actor: 'You', actorColor: state.myColor ?? '#ffffff' };
+  }
+  const player = state.players[playerId];
+  return { actor: player?.name ?? 'Someone', actorColor: player?.color ?? '#ffffff' };
+}
+
+function getTeamColor(teamId: string, state: GameState) {
+  if (state.mode === 'teams') {
+    return state.teams.find((team) => team.id === teamId)?.color ?? null;
+  }
+  return teamId === state.myId ? state.myColor : (state.players[teamId]?.color ?? null);
+}
+
+// Drops ghost forces the server turned down (or never answered), gives back what they cost and
+// leaves a fizzle where each one was
+function rollBackForces(state: GameState, requestIds: string[]): Partial<GameState> {
+  const pendingForces = { ...state.pendingForces };
+  const fizzles = { ...state.fizzles };
+  let myEnergy = state.myEnergy;
+  const myCooldowns = { ...state.myCooldowns };
+  for (const requestId of requestIds) {
+    const pending = pendingForces[requestId];
+    delete pendingForces[requestId];
+    const { force } = pending;
+    myEnergy = Math.min(state.myMaxEnergy, myEnergy + state.abilityConfig[force.type].energyCost);
+    if (myCooldowns[force.type] === pending.cooldownEndsAt) {
+      myCooldowns[force.type] = pending.previousCooldown;
+    }
+    fizzles[requestId] = { id: requestId, position: force.position, color: force.color };
+    setTimeout(() => {
+      useGameStore.setState((current) => {
+        const remaining = { ...current.fizzles };
+        delete remaining[requestId];
+        return { fizzles: remaining };
+      });
+    }, FIZZLE_DURATION_MS);
+  }
+  return { pendingForces, fizzles, myEnergy, myCooldowns };
+}
+
+// Where to draw another player's cursor this frame: their synced positions played back
+// INTERPOLATION_DELAY_MS behind the server clock. Null if there's nothing to draw.
+export function sampleRemoteCursor<T extends Vector3>(playerId: string, target: T): T | null {
+  const { cursorSnapshots, serverTimeOffset } = useGameStore.getState();
+  return sampleSnapshots(cursorSnapshots[playerId], Date.now() + serverTimeOffset - INTERPOLATION_DELAY_MS, target);
+}
@@ -0,0 +1,126 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { create } from 'zustand';
+import { parseReplay, type Replay } from '../shared/protocol';
+import { useGameStore } from './useGameStore';
+
+export const REPLAY_SPEEDS = [0.5, 1, 2, 4] as const;
+
+interface ReplayState {
+  matchId: number | null;
+  replay: Replay | null;
+  error: string | null;
+  timeMs: number;
+  playing: boolean;
+  speed: number;
+  // Index of the next event to feed into the game store
+  cursor: number;
+  load: (matchId: number) => Promise<void>;
+  play: () => void;
+  pause: () => void;
+  seek: (timeMs: number) => void;
+  setSpeed: (speed: number) => void;
+  // Moves the timeline on by `realMs` of wall-clock time, scaled by the playback speed
+  advance: (realMs: number) => void;
+}
+
+/**
+ * Plays a recorded round back through `useGameStore`, so the regular scene and HUD render it.
+ * Seeking backwards rebuilds the state from the opening snapshot.
+ */
+export const useReplayStore = create<ReplayState>((set, get) => {
+  // Feeds every event up to `timeMs` and keeps the match clock in step with the timeline
+  const feedUntil = (timeMs: number) => {
+    const { replay } = get();
+    if (!replay) {
+      return;
+    }
+    let { cursor } = get();
+    if (timeMs < get().timeMs) {
+      cursor = 0;
+    }
+    const game = useGameStore.getState();
+    while (cursor < replay.events.length && replay.events[cursor].t <= timeMs) {
+      game.applyServerMessage(replay.events[cursor].message);
+      cursor++;
+    }
+    useGameStore.setState({ serverTimeOffset: replay.startedAt + timeMs - Date.now() });
+    set({ cursor, timeMs });
+  };
+
+  return {
+    matchId: null,
+    replay: null,
+    error: null,
+    timeMs: 0,
+    playing: false,
+    speed: 1,
+    cursor: 0,
+
+    load: async (matchId: number) => {
+      set({ matchId, replay: null, error: null, timeMs: 0, cursor: 0, playing: false });
+      try {
+        const res = await fetch(`/api/matches/${matchId}/replay`);
+        if (!res.ok) {
+          set({ error: res.status === 404 ? 'This match has no replay.' : 'Could not load the replay.' });
+          return;
+        }
+        const parsed = parseReplay(await res.text());
+        if (parsed.ok === false) {
+          console.error('Invalid replay', parsed.error);
+          set({ error: 'This replay is damaged or from an incompatible version.' });
+          return;
+        }
+        set({ replay: parsed.message });
+        feedUntil(0);
+        set({ playing: true });
+      } catch (e) {
+        console.error('Could not load replay', e);
+        set({ error: 'Could not load the replay.' });
+      }
+    },
+
+    play: () => {
+      const { replay, timeMs } = get();
+      if (!replay) {
+        return;
+      }
+      // Playing from the very end starts over
+      if (timeMs >= replay.durationMs) {
+        feedUntil(0);
+      }
+      set({ playing: true });
+    },
+
+    pause: () => {
+      set({ playing: false });
+    },
+
+    seek: (timeMs: number) => {
+      const { replay } = get();
+      if (!replay) {
+        return;
+      }
+      feedUntil(Math.max(0, Math.min(replay.durationMs, timeMs)));
+    },
+
+    setSpeed: (speed: number) => {
+      set({ speed });
+    },
+
+    advance: (realMs: number) => {
+      const { replay, playing, speed, timeMs } = get();
+      if (!replay || !playing) {
+        return;
+      }
+      const next = Math.min(replay.durationMs, timeMs + realMs * speed);
+      feedUntil(next);
+      if (next >= replay.durationMs) {
+        set({ playing: false });
+      }
+    }
+  };
+});
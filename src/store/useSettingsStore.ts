@@ -0,0 +1,117 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { create } from 'zustand';
+import { asRecord, readStoredObject } from '../utils/storage';
+
+export interface GraphicsSettings {
+  particleBudget: number; // live particles at most
+  spawnRate: number; // share of the full spawn rate, 0.25..1
+  bloom: boolean;
+  bloomIntensity: number; // multiplier on the map's bloom
+  starDensity: number; // multiplier on the map's star count
+  trailLength: number; // cursor trail length in frames; 0 turns trails off
+  pixelRatio: number;
+}
+
+// The particle simulation is sized for this many; budgets only ever go up to it
+export const MAX_PARTICLE_BUDGET = 40000;
+export const TARGET_FPS_OPTIONS = [30, 60] as const;
+
+// Lowest first: automatic mode steps through these
+export const QUALITY_PRESETS: { name: string; settings: GraphicsSettings }[] = [
+  {
+    name: 'Low',
+    settings: { particleBudget: 8000, spawnRate: 0.5, bloom: false, bloomIntensity: 1, starDensity: 0.3, trailLength: 0, pixelRatio: 0.75 }
+  },
+  {
+    name: 'Medium',
+    settings: { particleBudget: 16000, spawnRate: 0.75, bloom: true, bloomIntensity: 0.8, starDensity: 0.6, trailLength: 10, pixelRatio: 1 }
+  },
+  {
+    name: 'High',
+    settings: { particleBudget: 25000, spawnRate: 1, bloom: true, bloomIntensity: 1, starDensity: 1, trailLength: 20, pixelRatio: 1.5 }
+  },
+  {
+    name: 'Ultra',
+    settings: { particleBudget: MAX_PARTICLE_BUDGET, spawnRate: 1, bloom: true, bloomIntensity: 1.2, starDensity: 1.5, trailLength: 30, pixelRatio: 2 }
+  }
+];
+const DEFAULT_LEVEL = 2;
+
+interface SettingsState {
+  // Automatic mode picks a preset to hold `targetFps`; otherwise `manual` applies
+  auto: boolean;
+  targetFps: number;
+  autoLevel: number; // index into QUALITY_PRESETS
+  manual: GraphicsSettings;
+  setAuto: (auto: boolean) => void;
+  setTargetFps: (fps: number) => void;
+  setAutoLevel: (level: number) => void;
+  setManual: (settings: Partial<GraphicsSettings>) => void;
+}
+
+const SETTINGS_KEY = 'territory-war:graphics';
+
+function clamp(value: unknown, min: number, max: number, fallback: number) {
+  return typeof value === 'number' && Number.isFinite(value) ? Math.max(min, Math.min(max, value)) : fallback;
+}
+
+function loadSettings(): Pick<SettingsState, 'auto' | 'targetFps' | 'autoLevel' | 'manual'> {
+  const defaults = QUALITY_PRESETS[DEFAULT_LEVEL].settings;
+  // Every field is checked on its own: anything missing or out of range falls back to the default
+  const stored = readStoredObject(SETTINGS_KEY);
+  const m = asRecord(stored.manual);
+  return {
+    auto: typeof stored.auto === 'boolean' ? stored.auto : true,
+    targetFps: TARGET_FPS_OPTIONS.find((fps) => fps === stored.targetFps) ?? 60,
+    autoLevel: Math.round(clamp(stored.autoLevel, 0, QUALITY_PRESETS.length - 1, DEFAULT_LEVEL)),
+    manual: {
+      particleBudget: Math.round(clamp(m.particleBudget, 1000, MAX_PARTICLE_BUDGET, defaults.particleBudget)),
+      spawnRate: clamp(m.spawnRate, 0.25, 1, defaults.spawnRate),
+      bloom: typeof m.bloom === 'boolean' ? m.bloom : defaults.bloom,
+      bloomIntensity: clamp(m.bloomIntensity, 0, 2, defaults.bloomIntensity),
+      starDensity: clamp(m.starDensity, 0, 1.5, defaults.starDensity),
+      trailLength: Math.round(clamp(m.trailLength, 0, 40, defaults.trailLength)),
+      pixelRatio: clamp(m.pixelRatio, 0.5, 2, defaults.pixelRatio)
+    }
+  };
+}
+
+function saveSettings(state: SettingsState) {
+  try {
+    const { auto, targetFps, autoLevel, manual } = state;
+    window.localStorage.setItem(SETTINGS_KEY, JSON.stringify({ auto, targetFps, autoLevel, manual }));
+  } catch {
+    // Not being able to remember the settings is harmless
+  }
+}
+
+export const useSettingsStore = create<SettingsState>((set) => ({
+  ...loadSettings(),
+
+  setAuto: (auto: boolean) => {
+    set({ auto });
+  },
+
+  setTargetFps: (targetFps: number) => {
+    set({ targetFps });
+  },
+
+  setAutoLevel: (autoLevel: number) => {
+    set({ autoLevel: Math.max(0, Math.min(QUALITY_PRESETS.length - 1, autoLevel)) });
+  },
+
+  setManual: (settings: Partial<GraphicsSettings>) => {
+    set((state) => ({ manual: { ...state.manual, ...settings } }));
+  }
+}));
+
+useSettingsStore.subscribe(saveSettings);
+
+// The settings in effect right now, from the automatic preset or the manual values
+export function useGraphicsSettings() {
+  return useSettingsStore((state) => (state.auto ? QUALITY_PRESETS[state.autoLevel].settings : state.manual));
+}
@@ -0,0 +1,85 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { create } from 'zustand';
+
+export type ToastKind = 'warning' | 'join' | 'leave' | 'capture';
+
+export interface ToastInput {
+  // Toasts with the same key are one toast: a repeat bumps its count and keeps it up longer
+  key: string;
+  kind: ToastKind;
+  message: string;
+  color?: string | null; // the player or team the toast is about
+}
+
+export interface Toast extends ToastInput {
+  id: number;
+  count: number;
+}
+
+interface ToastState {
+  toasts: Toast[]; // oldest first
+  pushToast: (toast: ToastInput) => void;
+  dismissToast: (id: number) => void;
+}
+
+const TOAST_DURATION_MS = 3500;
+const MAX_TOASTS = 4;
+// At most this many new toasts per window; repeats of a showing toast don't count
+const TOAST_RATE_LIMIT = 3;
+const TOAST_RATE_WINDOW_MS = 1000;
+
+let nextToastId = 1;
+const dismissTimers = new Map<number, ReturnType<typeof setTimeout>>();
+let recentToastTimes: number[] = [];
+
+export const useToastStore = create<ToastState>((set, get) => {
+  const scheduleDismiss = (id: number) => {
+    clearTimeout(dismissTimers.get(id));
+    dismissTimers.set(id, setTimeout(() => get().dismissToast(id), TOAST_DURATION_MS));
+  };
+
+  return {
+    toasts: [],
+
+    pushToast: (input: ToastInput) => {
+      const existing = get().toasts.find((toast) => toast.key === input.key);
+      if (existing) {
+        // A different kind under the same key (a join turning into a leave) replaces the toast
+        // rather than counting as a repeat of it
+        set((state) => ({
+          toasts: state.toasts.map((toast) =>
+            toast.id === existing.id ? { ...toast, ...input, count: toast.kind === input.kind ? toast.count + 1 : 1 } : toast
+          )
+        }));
+        scheduleDismiss(existing.id);
+        return;
+      }
+
+      const now = Date.now();
+      recentToastTimes = recentToastTimes.filter((t) => now - t < TOAST_RATE_WINDOW_MS);
+      if (recentToastTimes.length >= TOAST_RATE_LIMIT) {
+        return;
+      }
+      recentToastTimes.push(now);
+
+      const toast: Toast = { ...input, id: nextToastId++, count: 1 };
+      const overflow = get().toasts.slice(0, Math.max(0, get().toasts.length + 1 - MAX_TOASTS));
+      overflow.forEach(({ id }) => {
+        clearTimeout(dismissTimers.get(id));
+        dismissTimers.delete(id);
+      });
+      set((state) => ({ toasts: [...state.toasts.slice(overflow.length), toast] }));
+      scheduleDismiss(toast.id);
+    },
+
+    dismissToast: (id: number) => {
+      clearTimeout(dismissTimers.get(id));
+      dismissTimers.delete(id);
+      set((state) => ({ toasts: state.toasts.filter((toast) => toast.id !== id) }));
+    }
+  };
+});
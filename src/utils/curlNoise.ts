@@ -3,49 +3,50 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import { createNoise3D } from 'simplex-noise';
+import { createNoise4D } from 'simplex-noise';
 import * as THREE from 'three';
 
-const noise3D = createNoise3D();
-
-function computeCurl(x: number, y: number, z: number): THREE.Vector3 {
-  const eps = 0.0001;
-  const curl = new THREE.Vector3();
-
-  // Find rate of change in YZ plane
-  let n1 = noise3D(x, y + eps, z);
-  let n2 = noise3D(x, y - eps, z);
-  const a = (n1 - n2) / (2 * eps);
-
-  n1 = noise3D(x, y, z + eps);
-  n2 = noise3D(x, y, z - eps);
-  const b = (n1 - n2) / (2 * eps);
-
-  curl.x = a - b;
-
-  // Find rate of change in XZ plane
-  n1 = noise3D(x, y, z + eps);
-  n2 = noise3D(x, y, z - eps);
-  const c = (n1 - n2) / (2 * eps);
-
-  n1 = noise3D(x + eps, y, z);
-  n2 = noise3D(x - eps, y, z);
-  const d = (n1 - n2) / (2 * eps);
-
-  curl.y = c - d;
-
-  // Find rate of change in XY plane
-  n1 = noise3D(x + eps, y, z);
-  n2 = noise3D(x - eps, y, z);
-  const e = (n1 - n2) / (2 * eps);
-
-  n1 = noise3D(x, y + eps, z);
-  n2 = noise3D(x, y - eps, z);
-  const f = (n1 - n2) / (2 * eps);
+// How fast the field drifts: noise units per second of round time. Slow enough that the streams
+// shift over a round rather than flicker.
+const FLOW_DRIFT_PER_SECOND = 0.02;
+
+// Small, fast seeded PRNG so every client builds the same permutation table from the same seed
+function mulberry32(seed: number) {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
 
-  curl.z = e - f;
+// Writes into `target` when given, so hot loops don't allocate a vector per call
+export type CurlFunction = (x: number, y: number, z: number, seconds: number, target?: THREE.Vector3) => THREE.Vector3;
 
-  return curl.normalize();
+/**
+ * Curl of a seeded 4D noise field, with time as the fourth dimension. Clients that share the seed
+ * and the clock (seconds since the field's epoch) push particles around identically.
+ */
+function createCurlNoise(seed: number): CurlFunction {
+  const noise4D = createNoise4D(mulberry32(seed));
+
+  return (x: number, y: number, z: number, seconds: number, curl = new THREE.Vector3()) => {
+    const eps = 0.0001;
+    const w = seconds * FLOW_DRIFT_PER_SECOND;
+
+    // Rates of change along each axis, each sampled once and shared by the two planes that need it
+    const dx = (noise4D(x + eps, y, z, w) - noise4D(x - eps, y, z, w)) / (2 * eps);
+    const dy = (noise4D(x, y + eps, z, w) - noise4D(x, y - eps, z, w)) / (2 * eps);
+    const dz = (noise4D(x, y, z + eps, w) - noise4D(x, y, z - eps, w)) / (2 * eps);
+
+    curl.x = dy - dz;
+    curl.y = dz - dx;
+    curl.z = dx - dy;
+
+    return curl.normalize();
+  };
 }
 
-export { computeCurl };
+export { createCurlNoise };
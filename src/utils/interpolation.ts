@@ -0,0 +1,70 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { Vector3 } from '../shared/protocol';
+
+// A remote cursor's position as of one `sync`, stamped with the server's clock
+export interface PositionSnapshot {
+  serverTime: number;
+  position: Vector3;
+}
+
+// Remote cursors are drawn this far in the past, so there is (nearly) always a snapshot on
+// either side to blend between. Two 20Hz syncs' worth.
+export const INTERPOLATION_DELAY_MS = 100;
+// Past the newest snapshot a cursor keeps going the way it was for at most this long, then waits
+const MAX_EXTRAPOLATION_MS = 100;
+// How much history to keep per player; anything older is never drawn again
+const SNAPSHOT_BUFFER_MS = 1000;
+
+// Appends a snapshot, dropping ones that are out of order or too old to matter
+export function pushSnapshot(snapshots: PositionSnapshot[] | undefined, snapshot: PositionSnapshot): PositionSnapshot[] {
+  const kept = (snapshots ?? []).filter(
+    (s) => s.serverTime < snapshot.serverTime && s.serverTime >= snapshot.serverTime - SNAPSHOT_BUFFER_MS
+  );
+  kept.push(snapshot);
+  return kept;
+}
+
+/**
+ * Where the snapshots put a cursor at `renderTime` (server clock): blended between the two
+ * snapshots around it, held at the oldest before the buffer starts, and extrapolated from the
+ * last two (briefly) once it runs out, which covers a late or lost sync.
+ */
+export function sampleSnapshots<T extends Vector3>(snapshots: PositionSnapshot[] | undefined, renderTime: number, target: T): T | null {
+  if (!snapshots || snapshots.length === 0) {
+    return null;
+  }
+
+  const first = snapshots[0];
+  if (renderTime <= first.serverTime) {
+    return lerpInto(target, first.position, first.position, 0);
+  }
+
+  for (let i = 1; i < snapshots.length; i++) {
+    const next = snapshots[i];
+    if (renderTime <= next.serverTime) {
+      const previous = snapshots[i - 1];
+      const t = (renderTime - previous.serverTime) / (next.serverTime - previous.serverTime);
+      return lerpInto(target, previous.position, next.position, t);
+    }
+  }
+
+  // Ran out: carry on at the last snapshot's velocity for a while
+  const last = snapshots[snapshots.length - 1];
+  const previous = snapshots[snapshots.length - 2];
+  if (!previous) {
+    return lerpInto(target, last.position, last.position, 0);
+  }
+  const ahead = Math.min(renderTime - last.serverTime, MAX_EXTRAPOLATION_MS) / (last.serverTime - previous.serverTime);
+  return lerpInto(target, previous.position, last.position, 1 + ahead);
+}
+
+function lerpInto<T extends Vector3>(target: T, from: Vector3, to: Vector3, t: number): T {
+  target.x = from.x + (to.x - from.x) * t;
+  target.y = from.y + (to.y - from.y) * t;
+  target.z = from.z + (to.z - from.z) * t;
+  return target;
+}
@@ -0,0 +1,20 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// `value` if it's a plain object, otherwise an empty one, so callers check each field themselves
+export function asRecord(value: unknown): Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) ? (value as Record<string, unknown>) : {};
+}
+
+// What's stored under `key`, as an object with unchecked fields; empty if it's missing, unreadable
+// or not an object (storage written by an older build, or edited by hand)
+export function readStoredObject(key: string): Record<string, unknown> {
+  try {
+    const stored: unknown = JSON.parse(window.localStorage.getItem(key) ?? '{}');
+    return asRecord(stored);
+  } catch {
+    return {};
+  }
+}